@@ -0,0 +1,59 @@
+/**
+ * Anchor framework error codes shared by every Anchor program
+ * (`anchor_lang::error::ErrorCode`). Programs' own errors start at 6000
+ * and need the program's IDL (see `HumanizerConfig.anchorIdls`).
+ */
+export const ANCHOR_ERRORS: Record<number, string> = {
+  // Constraints
+  2000: "ConstraintMut",
+  2001: "ConstraintHasOne",
+  2002: "ConstraintSigner",
+  2003: "ConstraintRaw",
+  2004: "ConstraintOwner",
+  2005: "ConstraintRentExempt",
+  2006: "ConstraintSeeds",
+  2007: "ConstraintExecutable",
+  2009: "ConstraintAssociated",
+  2010: "ConstraintAssociatedInit",
+  2011: "ConstraintClose",
+  2012: "ConstraintAddress",
+  2013: "ConstraintZero",
+  2014: "ConstraintTokenMint",
+  2015: "ConstraintTokenOwner",
+  2016: "ConstraintMintMintAuthority",
+  2017: "ConstraintMintFreezeAuthority",
+  2018: "ConstraintMintDecimals",
+  2019: "ConstraintSpace",
+  // require! macros
+  2500: "RequireViolated",
+  2501: "RequireEqViolated",
+  2502: "RequireKeysEqViolated",
+  2503: "RequireNeqViolated",
+  2504: "RequireKeysNeqViolated",
+  2505: "RequireGtViolated",
+  2506: "RequireGteViolated",
+  // Accounts
+  3000: "AccountDiscriminatorAlreadySet",
+  3001: "AccountDiscriminatorNotFound",
+  3002: "AccountDiscriminatorMismatch",
+  3003: "AccountDidNotDeserialize",
+  3004: "AccountDidNotSerialize",
+  3005: "AccountNotEnoughKeys",
+  3006: "AccountNotMutable",
+  3007: "AccountOwnedByWrongProgram",
+  3008: "InvalidProgramId",
+  3009: "InvalidProgramExecutable",
+  3010: "AccountNotSigner",
+  3011: "AccountNotSystemOwned",
+  3012: "AccountNotInitialized",
+  3013: "AccountNotProgramData",
+  3014: "AccountNotAssociatedTokenAccount",
+  3015: "AccountSysvarMismatch",
+  3016: "AccountReallocExceedsLimit",
+  3017: "AccountDuplicateReallocs",
+  // Miscellaneous
+  4100: "DeclaredProgramIdMismatch",
+  4101: "TryingToInitPayerAsProgramAccount",
+  4102: "InvalidNumericConversion",
+  5000: "Deprecated",
+};
@@ -0,0 +1,114 @@
+import type { ErrorCategory, ErrorSeverity, SuggestedAction } from "../types";
+
+/**
+ * All error categories, in the order they are listed to the AI model.
+ */
+export const ERROR_CATEGORIES: readonly ErrorCategory[] = [
+  "user-rejected",
+  "insufficient-funds",
+  "allowance",
+  "slippage",
+  "liquidity",
+  "deadline",
+  "gas",
+  "nonce",
+  "network",
+  "rpc",
+  "rate-limit",
+  "chain-mismatch",
+  "wallet-locked",
+  "wallet-connection",
+  "signature",
+  "permission",
+  "invalid-input",
+  "contract-revert",
+  "unknown",
+];
+
+export function isErrorCategory(value: unknown): value is ErrorCategory {
+  return ERROR_CATEGORIES.includes(value as ErrorCategory);
+}
+
+/**
+ * All suggested actions, in the order they are listed to the AI model.
+ */
+export const SUGGESTED_ACTIONS: readonly SuggestedAction[] = [
+  "INCREASE_SLIPPAGE",
+  "APPROVE_TOKEN",
+  "SWITCH_NETWORK",
+  "ADD_NATIVE_FUNDS",
+  "RECONNECT_WALLET",
+  "REDUCE_AMOUNT",
+  "REFRESH_QUOTE",
+  "SPEED_UP",
+  "RETRY",
+];
+
+export function isSuggestedAction(value: unknown): value is SuggestedAction {
+  return SUGGESTED_ACTIONS.includes(value as SuggestedAction);
+}
+
+/**
+ * Default retryability, severity and suggested actions for each category.
+ * Dictionary entries and AI replies may override these.
+ */
+export const CATEGORY_TRAITS: Record<
+  ErrorCategory,
+  { retryable: boolean; severity: ErrorSeverity; actions: SuggestedAction[] }
+> = {
+  "user-rejected": { retryable: false, severity: "info", actions: [] },
+  "insufficient-funds": {
+    retryable: false,
+    severity: "error",
+    actions: ["REDUCE_AMOUNT"],
+  },
+  allowance: {
+    retryable: false,
+    severity: "warning",
+    actions: ["APPROVE_TOKEN"],
+  },
+  slippage: {
+    retryable: false,
+    severity: "warning",
+    actions: ["INCREASE_SLIPPAGE", "REFRESH_QUOTE"],
+  },
+  liquidity: {
+    retryable: false,
+    severity: "warning",
+    actions: ["REDUCE_AMOUNT"],
+  },
+  deadline: {
+    retryable: true,
+    severity: "warning",
+    actions: ["REFRESH_QUOTE"],
+  },
+  gas: { retryable: false, severity: "warning", actions: [] },
+  nonce: { retryable: true, severity: "warning", actions: ["RETRY"] },
+  network: { retryable: true, severity: "warning", actions: ["RETRY"] },
+  rpc: { retryable: true, severity: "warning", actions: ["RETRY"] },
+  "rate-limit": { retryable: true, severity: "warning", actions: ["RETRY"] },
+  "chain-mismatch": {
+    retryable: false,
+    severity: "warning",
+    actions: ["SWITCH_NETWORK"],
+  },
+  "wallet-locked": {
+    retryable: false,
+    severity: "warning",
+    actions: ["RECONNECT_WALLET"],
+  },
+  "wallet-connection": {
+    retryable: false,
+    severity: "warning",
+    actions: ["RECONNECT_WALLET"],
+  },
+  signature: { retryable: false, severity: "error", actions: [] },
+  permission: { retryable: false, severity: "error", actions: [] },
+  "invalid-input": { retryable: false, severity: "error", actions: [] },
+  "contract-revert": { retryable: false, severity: "error", actions: [] },
+  unknown: { retryable: false, severity: "error", actions: [] },
+};
+
+export function isErrorSeverity(value: unknown): value is ErrorSeverity {
+  return value === "info" || value === "warning" || value === "error";
+}
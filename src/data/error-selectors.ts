@@ -0,0 +1,130 @@
+/**
+ * Well-known custom error signatures, decoded without a caller-supplied ABI.
+ * Covers:
+ * - ERC-6093 token errors (ERC20/721/1155)
+ * - OpenZeppelin Contracts v5
+ * - Permit2
+ * - Uniswap V3/V4 and Universal Router
+ *
+ * Selectors are derived from these signatures on first use.
+ */
+export const KNOWN_ERROR_SIGNATURES: readonly string[] = [
+  // ============================================
+  // ERC-6093 Standard Custom Errors
+  // ============================================
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidApprover(address approver)",
+  "error ERC20InvalidSpender(address spender)",
+  "error ERC721InvalidOwner(address owner)",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+  "error ERC721IncorrectOwner(address sender, uint256 tokenId, address owner)",
+  "error ERC721InvalidSender(address sender)",
+  "error ERC721InvalidReceiver(address receiver)",
+  "error ERC721InsufficientApproval(address operator, uint256 tokenId)",
+  "error ERC721InvalidApprover(address approver)",
+  "error ERC721InvalidOperator(address operator)",
+  "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+  "error ERC1155InvalidSender(address sender)",
+  "error ERC1155InvalidReceiver(address receiver)",
+  "error ERC1155MissingApprovalForAll(address operator, address owner)",
+  "error ERC1155InvalidApprover(address approver)",
+  "error ERC1155InvalidOperator(address operator)",
+  "error ERC1155InvalidArrayLength(uint256 idsLength, uint256 valuesLength)",
+
+  // ============================================
+  // OpenZeppelin Contracts v5
+  // ============================================
+  "error OwnableUnauthorizedAccount(address account)",
+  "error OwnableInvalidOwner(address owner)",
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccessControlBadConfirmation()",
+  "error EnforcedPause()",
+  "error ExpectedPause()",
+  "error ReentrancyGuardReentrantCall()",
+  "error SafeERC20FailedOperation(address token)",
+  "error SafeERC20FailedDecreaseAllowance(address spender, uint256 currentAllowance, uint256 requestedDecrease)",
+  "error AddressEmptyCode(address target)",
+  "error AddressInsufficientBalance(address account)",
+  "error FailedInnerCall()",
+  "error FailedCall()",
+  "error InsufficientBalance(uint256 balance, uint256 needed)",
+  "error ERC2612ExpiredSignature(uint256 deadline)",
+  "error ERC2612InvalidSigner(address signer, address owner)",
+  "error InvalidAccountNonce(address account, uint256 currentNonce)",
+  "error ECDSAInvalidSignature()",
+  "error ECDSAInvalidSignatureLength(uint256 length)",
+  "error ECDSAInvalidSignatureS(bytes32 s)",
+  "error SafeCastOverflowedUintDowncast(uint8 bits, uint256 value)",
+  "error MathOverflowedMulDiv()",
+
+  // ============================================
+  // Permit2
+  // ============================================
+  "error AllowanceExpired(uint256 deadline)",
+  "error InsufficientAllowance(uint256 amount)",
+  "error ExcessiveInvalidation()",
+  "error InvalidAmount(uint256 maxAmount)",
+  "error LengthMismatch()",
+  "error SignatureExpired(uint256 signatureDeadline)",
+  "error InvalidNonce()",
+  "error InvalidSignature()",
+  "error InvalidSignatureLength()",
+  "error InvalidSigner()",
+  "error InvalidContractSignature()",
+
+  // ============================================
+  // Uniswap Universal Router (V2/V3 swap routers)
+  // ============================================
+  "error ExecutionFailed(uint256 commandIndex, bytes message)",
+  "error ETHNotAccepted()",
+  "error TransactionDeadlinePassed()",
+  "error InvalidCommandType(uint256 commandType)",
+  "error BalanceTooLow()",
+  "error InsufficientETH()",
+  "error InsufficientToken()",
+  "error InvalidEthSender()",
+  "error FromAddressIsNotOwner()",
+  "error SliceOutOfBounds()",
+  "error V2TooLittleReceived()",
+  "error V2TooMuchRequested()",
+  "error V2InvalidPath()",
+  "error V3TooLittleReceived()",
+  "error V3TooMuchRequested()",
+  "error V3InvalidSwap()",
+  "error V3InvalidAmountOut()",
+  "error V3InvalidCaller()",
+
+  // ============================================
+  // Uniswap V4 (PoolManager & periphery)
+  // ============================================
+  "error PoolNotInitialized()",
+  "error PoolAlreadyInitialized()",
+  "error CurrencyNotSettled()",
+  "error AlreadyUnlocked()",
+  "error ManagerLocked()",
+  "error SwapAmountCannotBeZero()",
+  "error NonzeroNativeValue()",
+  "error MustClearExactPositiveDelta()",
+  "error NoLiquidityToReceiveFees()",
+  "error InvalidFeeForExactOut()",
+  "error UnauthorizedDynamicLPFeeUpdate()",
+  "error TickSpacingTooLarge(int24 tickSpacing)",
+  "error TickSpacingTooSmall(int24 tickSpacing)",
+  "error TicksMisordered(int24 tickLower, int24 tickUpper)",
+  "error TickLowerOutOfBounds(int24 tickLower)",
+  "error TickUpperOutOfBounds(int24 tickUpper)",
+  "error InvalidTick(int24 tick)",
+  "error InvalidSqrtPrice(uint160 sqrtPriceX96)",
+  "error CurrenciesOutOfOrderOrEqual(address currency0, address currency1)",
+  "error PriceLimitAlreadyExceeded(uint160 sqrtPriceCurrentX96, uint160 sqrtPriceLimitX96)",
+  "error PriceLimitOutOfBounds(uint160 sqrtPriceLimitX96)",
+  "error HookAddressNotValid(address hooks)",
+  "error InvalidHookResponse()",
+  "error WrappedError(address target, bytes4 selector, bytes reason, bytes details)",
+  "error V4TooLittleReceived(uint256 minAmountOutReceived, uint256 amountReceived)",
+  "error V4TooMuchRequested(uint256 maxAmountInRequested, uint256 amountRequested)",
+  "error DeadlinePassed(uint256 deadline)",
+];
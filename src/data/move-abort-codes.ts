@@ -0,0 +1,44 @@
+/**
+ * Abort codes of well-known Move framework modules, keyed by
+ * `"<address>::<module>"`. Aptos modules raise canonical codes
+ * (`category << 16 | reason`) and are keyed by reason. Add your own
+ * modules with `registerMoveAbortCodes`.
+ */
+export const MOVE_ABORT_CODES: Record<string, Record<number, string>> = {
+  // Aptos framework
+  "0x1::coin": {
+    1: "ECOIN_INFO_ADDRESS_MISMATCH",
+    2: "ECOIN_INFO_ALREADY_PUBLISHED",
+    3: "ECOIN_INFO_NOT_PUBLISHED",
+    4: "ECOIN_STORE_ALREADY_PUBLISHED",
+    5: "ECOIN_STORE_NOT_PUBLISHED",
+    6: "EINSUFFICIENT_BALANCE",
+    7: "EDESTRUCTION_OF_NONZERO_TOKEN",
+    10: "EFROZEN",
+  },
+  "0x1::account": {
+    1: "EACCOUNT_ALREADY_EXISTS",
+    2: "EACCOUNT_DOES_NOT_EXIST",
+    3: "ESEQUENCE_NUMBER_TOO_BIG",
+    4: "EMALFORMED_AUTHENTICATION_KEY",
+    5: "ECANNOT_RESERVED_ADDRESS",
+    7: "EWRONG_CURRENT_PUBLIC_KEY",
+    8: "EINVALID_PROOF_OF_KNOWLEDGE",
+  },
+  "0x1::aptos_account": {
+    1: "EACCOUNT_NOT_FOUND",
+    2: "EACCOUNT_NOT_REGISTERED_FOR_APT",
+    3: "EACCOUNT_DOES_NOT_ACCEPT_DIRECT_COIN_TRANSFERS",
+  },
+  // Sui framework
+  "0x2::balance": {
+    0: "ENonZero",
+    1: "EOverflow",
+    2: "ENotEnough",
+  },
+  "0x2::coin": {
+    0: "EBadWitness",
+    1: "EInvalidArg",
+    2: "ENotEnough",
+  },
+};
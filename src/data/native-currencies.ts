@@ -0,0 +1,38 @@
+import type { NativeCurrency } from "../types";
+
+/**
+ * Native gas tokens of common EVM chains, keyed by chain ID.
+ * Used to format balance shortfalls in the chain's own units.
+ */
+export const NATIVE_CURRENCIES: Record<number, NativeCurrency> = {
+  // Ethereum and ETH-denominated L2s
+  1: { symbol: "ETH", decimals: 18 },
+  10: { symbol: "ETH", decimals: 18 },
+  324: { symbol: "ETH", decimals: 18 },
+  1101: { symbol: "ETH", decimals: 18 },
+  8453: { symbol: "ETH", decimals: 18 },
+  42161: { symbol: "ETH", decimals: 18 },
+  42170: { symbol: "ETH", decimals: 18 },
+  59144: { symbol: "ETH", decimals: 18 },
+  81457: { symbol: "ETH", decimals: 18 },
+  534352: { symbol: "ETH", decimals: 18 },
+  7777777: { symbol: "ETH", decimals: 18 },
+  // Testnets
+  11155111: { symbol: "ETH", decimals: 18 },
+  84532: { symbol: "ETH", decimals: 18 },
+  421614: { symbol: "ETH", decimals: 18 },
+  11155420: { symbol: "ETH", decimals: 18 },
+  // Other L1s and sidechains
+  25: { symbol: "CRO", decimals: 18 },
+  56: { symbol: "BNB", decimals: 18 },
+  100: { symbol: "xDAI", decimals: 18 },
+  137: { symbol: "POL", decimals: 18 },
+  146: { symbol: "S", decimals: 18 },
+  204: { symbol: "BNB", decimals: 18 },
+  250: { symbol: "FTM", decimals: 18 },
+  1284: { symbol: "GLMR", decimals: 18 },
+  5000: { symbol: "MNT", decimals: 18 },
+  42220: { symbol: "CELO", decimals: 18 },
+  43114: { symbol: "AVAX", decimals: 18 },
+  80094: { symbol: "BERA", decimals: 18 },
+};
@@ -0,0 +1,40 @@
+import type { ErrorPack } from "../../types";
+
+export const AAVE_V3_PACK: ErrorPack = {
+  name: "aave-v3",
+  description: "Aave V3 lending pool validation errors (VL_*).",
+  sections: [
+    {
+      name: "Aave V3 / Lending Pool Errors (VL_*)",
+      category: "contract-revert",
+      entries: {
+        VL_BORROWING_NOT_ENABLED:
+          "Borrowing is disabled for this asset right now.",
+        VL_SUPPLY_CAP_EXCEEDED:
+          "Supply cap reached for this asset. Try a smaller deposit or wait.",
+        VL_BORROW_CAP_EXCEEDED:
+          "Borrow cap reached for this asset. Try a smaller amount or another asset.",
+        VL_COLLATERAL_CANNOT_COVER_NEW_BORROW: {
+          message:
+            "Not enough collateral for this borrow. Add more collateral or reduce amount.",
+          category: "insufficient-funds",
+        },
+        VL_HEALTH_FACTOR_LOWER_THAN_LIQUIDATION_THRESHOLD:
+          "Position is too risky. Add collateral or reduce your borrow.",
+        VL_COLLATERAL_BALANCE_IS_ZERO: {
+          message:
+            "You have no collateral for this position. Supply collateral first.",
+          category: "insufficient-funds",
+        },
+        VL_TRANSFER_NOT_ALLOWED:
+          "Transfer blocked because the asset is used as collateral or frozen.",
+        VL_INVALID_HEALTH_FACTOR:
+          "Health factor is invalid. Refresh your position and try again.",
+        VL_LIQUIDATION_CALL_FAILED:
+          "Liquidation could not be executed. Check position or try again later.",
+        SAFECAST_OVERFLOW:
+          "Internal math overflow. Try again with updated parameters or smaller size.",
+      },
+    },
+  ],
+};
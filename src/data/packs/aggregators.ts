@@ -0,0 +1,38 @@
+import type { ErrorPack } from "../../types";
+
+export const AGGREGATORS_PACK: ErrorPack = {
+  name: "aggregators",
+  description: "1inch and other DEX aggregator errors.",
+  sections: [
+    {
+      name: "1inch / Aggregator Errors",
+      category: "slippage",
+      entries: {
+        "1inch: minReturn":
+          "Price moved too much. Increase slippage tolerance.",
+        ReturnAmountIsNotEnough:
+          "Price moved too much. Increase slippage tolerance.",
+        "Min return not reached":
+          "Minimum return not met. Increase your slippage tolerance.",
+        "1inch: insufficient output amount":
+          "Price moved too much. Increase slippage tolerance.",
+        "1inch: insufficient input amount": {
+          message: "Input amount too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "1inch: insufficient liquidity": {
+          message: "Not enough liquidity. Try a smaller amount.",
+          category: "liquidity",
+        },
+        "1inch: expired": {
+          message: "Quote expired. Please try again.",
+          category: "deadline",
+        },
+        "1inch: transfer failed": {
+          message: "Token transfer failed. Check your approval.",
+          category: "allowance",
+        },
+      },
+    },
+  ],
+};
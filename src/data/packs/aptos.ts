@@ -0,0 +1,179 @@
+import type { ErrorPack } from "../../types";
+
+export const APTOS_PACK: ErrorPack = {
+  name: "aptos",
+  description: "Aptos wallet errors and Move aborts.",
+  sections: [
+    {
+      name: "Aptos Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Petra - Rejected": "You declined the request in Petra wallet.",
+        "Pontem - Rejected": "You declined the request in Pontem wallet.",
+        "Martian - Rejected": "You declined the request in Martian wallet.",
+        "Rise - Rejected": "You declined the request in Rise wallet.",
+        "Fewcha - Rejected": "You declined the request in Fewcha wallet.",
+        AptosWalletError: {
+          message: "Aptos wallet encountered an error. Please try again.",
+          category: "wallet-connection",
+        },
+        INSUFFICIENT_BALANCE_FOR_TRANSACTION_FEE: {
+          message: "Not enough APT for gas fees.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        SEQUENCE_NUMBER_TOO_OLD: {
+          message: "Transaction sequence error. Please try again.",
+          category: "nonce",
+        },
+        SEQUENCE_NUMBER_TOO_NEW: {
+          message: "Transaction sequence too new. Please wait.",
+          category: "nonce",
+        },
+        TRANSACTION_EXPIRED: {
+          message: "Transaction expired. Please try again.",
+          category: "deadline",
+        },
+        INVALID_AUTH_KEY: {
+          message: "Invalid authentication key.",
+          category: "signature",
+        },
+        EPENDING_TRANSACTION_EXISTS: {
+          message: "A pending transaction exists. Please wait.",
+          category: "nonce",
+        },
+        MAX_GAS_UNITS_BELOW_MIN_TRANSACTION_GAS_UNITS: {
+          message: "Gas limit too low.",
+          category: "gas",
+        },
+        MAX_GAS_UNITS_EXCEEDS_MAX_GAS_UNITS_BOUND: {
+          message: "Gas limit too high.",
+          category: "gas",
+        },
+        GAS_UNIT_PRICE_BELOW_MIN_BOUND: {
+          message: "Gas price too low.",
+          category: "gas",
+        },
+        GAS_UNIT_PRICE_ABOVE_MAX_BOUND: {
+          message: "Gas price too high.",
+          category: "gas",
+        },
+        MOVE_ABORT: {
+          message: "Smart contract execution aborted.",
+          category: "contract-revert",
+        },
+        EXECUTION_LIMIT_REACHED: {
+          message: "Execution limit reached. Please try again.",
+          category: "gas",
+        },
+        OUT_OF_GAS: {
+          message: "Transaction ran out of gas. Increase gas limit.",
+          category: "gas",
+        },
+        INVALID_SIGNATURE: {
+          message: "Invalid transaction signature.",
+          category: "signature",
+        },
+        INVALID_TRANSACTION_PAYLOAD: {
+          message: "Invalid transaction data.",
+          category: "invalid-input",
+        },
+      },
+    },
+    {
+      // "<address>::<module>::<error>", see MOVE_ABORT_CODES
+      name: "Aptos Framework Aborts",
+      category: "contract-revert",
+      entries: {
+        "0x1::coin::EINSUFFICIENT_BALANCE": {
+          message: "Insufficient balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        "0x1::coin::ECOIN_STORE_NOT_PUBLISHED": {
+          message:
+            "The recipient can't receive this token yet. They need to register it first.",
+          category: "invalid-input",
+        },
+        "0x1::coin::ECOIN_INFO_NOT_PUBLISHED": {
+          message: "This token doesn't exist. Please check the token.",
+          category: "invalid-input",
+        },
+        "0x1::coin::EFROZEN": {
+          message: "This token account is frozen.",
+          category: "permission",
+        },
+        "0x1::account::EACCOUNT_DOES_NOT_EXIST": {
+          message: "This account doesn't exist yet. Fund it with APT first.",
+          category: "invalid-input",
+        },
+        "0x1::account::EACCOUNT_ALREADY_EXISTS": {
+          message: "This account already exists.",
+          category: "invalid-input",
+        },
+        "0x1::account::ESEQUENCE_NUMBER_TOO_BIG": {
+          message: "Transaction sequence error. Please try again.",
+          category: "nonce",
+        },
+        "0x1::aptos_account::EACCOUNT_NOT_FOUND": {
+          message: "The recipient account doesn't exist.",
+          category: "invalid-input",
+        },
+        "0x1::aptos_account::EACCOUNT_NOT_REGISTERED_FOR_APT": {
+          message: "The recipient can't receive APT yet.",
+          category: "invalid-input",
+        },
+        "0x1::aptos_account::EACCOUNT_DOES_NOT_ACCEPT_DIRECT_COIN_TRANSFERS": {
+          message: "The recipient doesn't accept direct token transfers.",
+          category: "invalid-input",
+        },
+      },
+    },
+    {
+      // Aptos canonical categories, for aborts the dictionary doesn't name
+      name: "Move Abort Categories",
+      category: "contract-revert",
+      entries: {
+        "Move abort: INVALID_ARGUMENT": {
+          message: "The contract rejected the inputs. Please check them.",
+          category: "invalid-input",
+        },
+        "Move abort: OUT_OF_RANGE": {
+          message: "A value is out of the allowed range. Please check it.",
+          category: "invalid-input",
+        },
+        "Move abort: INVALID_STATE":
+          "The contract isn't in a state that allows this. Please try again later.",
+        "Move abort: UNAUTHENTICATED": {
+          message: "This action requires a signature from the right account.",
+          category: "signature",
+        },
+        "Move abort: PERMISSION_DENIED": {
+          message: "You don't have permission to do this.",
+          category: "permission",
+        },
+        "Move abort: NOT_FOUND": {
+          message: "A required account or resource wasn't found.",
+          category: "invalid-input",
+        },
+        "Move abort: ABORTED": {
+          message: "The transaction was aborted. Please try again.",
+          retryable: true,
+        },
+        "Move abort: ALREADY_EXISTS": {
+          message: "This already exists.",
+          category: "invalid-input",
+        },
+        "Move abort: RESOURCE_EXHAUSTED":
+          "A contract limit was reached. Try a smaller amount.",
+        "Move abort: CANCELLED": "The operation was cancelled.",
+        "Move abort: INTERNAL": "The contract hit an internal error.",
+        "Move abort: NOT_IMPLEMENTED":
+          "This feature isn't available in the contract yet.",
+        "Move abort: UNAVAILABLE": {
+          message: "The service is temporarily unavailable. Please try again.",
+          retryable: true,
+        },
+      },
+    },
+  ],
+};
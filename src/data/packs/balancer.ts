@@ -0,0 +1,32 @@
+import type { ErrorPack } from "../../types";
+
+export const BALANCER_PACK: ErrorPack = {
+  name: "balancer",
+  description: "Balancer vault errors (BAL#).",
+  sections: [
+    {
+      name: "Balancer Errors",
+      category: "contract-revert",
+      entries: {
+        "Balancer: insufficient output": {
+          message: "Price moved too much. Increase slippage tolerance.",
+          category: "slippage",
+        },
+        "Balancer: insufficient input": {
+          message: "Input amount too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "Balancer: insufficient liquidity": {
+          message: "Not enough liquidity for this trade.",
+          category: "liquidity",
+        },
+        "Balancer: expired": {
+          message: "Quote expired. Please try again.",
+          category: "deadline",
+        },
+        "Balancer: paused": "Pool is paused. Please try again later.",
+        "Balancer: swap disabled": "Swap is disabled for this pool.",
+      },
+    },
+  ],
+};
@@ -0,0 +1,45 @@
+import type { ErrorPack } from "../../types";
+
+export const BITCOIN_PACK: ErrorPack = {
+  name: "bitcoin",
+  description: "Bitcoin, Ordinals and UTXO wallet errors.",
+  sections: [
+    {
+      name: "Bitcoin / Ordinals Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "UniSat - Rejected": "You declined the request in UniSat wallet.",
+        "Xverse - Rejected": "You declined the request in Xverse wallet.",
+        "Leather - Rejected": "You declined the request in Leather wallet.",
+        "OKX Wallet - Rejected": "You declined the request in OKX Wallet.",
+        "Insufficient BTC": {
+          message: "Not enough BTC for this transaction.",
+          category: "insufficient-funds",
+        },
+        "Invalid PSBT": {
+          message: "Invalid transaction format. Please try again.",
+          category: "invalid-input",
+        },
+        "UTXO not found": {
+          message: "Transaction input not found. Please try again.",
+          category: "invalid-input",
+        },
+      },
+    },
+    {
+      name: "Bitcoin / UTXO Errors",
+      category: "signature",
+      entries: {
+        "utxo fetch failed": {
+          message:
+            "Unable to calculate transaction fees (UTXO). Please try again in a moment.",
+          category: "network",
+        },
+        "psbt signing failed":
+          "Bitcoin transaction signing failed (PSBT). Please try signing the transaction again.",
+        "invalid signed psbt":
+          "Invalid Bitcoin transaction signature (PSBT). Please sign the transaction again.",
+      },
+    },
+  ],
+};
@@ -0,0 +1,88 @@
+import type { ErrorPack } from "../../types";
+
+export const BRIDGES_PACK: ErrorPack = {
+  name: "bridges",
+  description: "Cross-chain bridge errors (LayerZero, Li.Fi, Stargate).",
+  sections: [
+    {
+      name: "Cross-Chain / Bridge Errors",
+      category: "contract-revert",
+      entries: {
+        "Bridge error": "Cross-chain bridge error. Please try again.",
+        "Bridge timeout": {
+          message: "Bridge transaction timed out. Please check status.",
+          category: "network",
+        },
+        "Unsupported chain": {
+          message: "This chain is not supported for this operation.",
+          category: "chain-mismatch",
+        },
+        "Chain mismatch": {
+          message: "Your wallet is on the wrong network. Please switch.",
+          template:
+            "Your wallet is on the wrong network. Please switch to {network}.",
+          category: "chain-mismatch",
+        },
+        "Invalid destination": {
+          message: "Invalid destination chain or address.",
+          category: "invalid-input",
+        },
+        "Bridge paused": "Bridge is paused. Please try again later.",
+      },
+    },
+    {
+      name: "LayerZero / Messaging Bridges",
+      category: "invalid-input",
+      entries: {
+        "LayerZero: not enough native for fees": {
+          message:
+            "Not enough native token to pay bridge fees. Add gas and retry.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "LayerZero: destination chain is not a trusted remote":
+          "Destination chain is not trusted. Check the target chain and retry.",
+        "LayerZero: invalid payload":
+          "Bridge payload invalid. Retry the transaction or contact support.",
+        "LayerZero: message blocked. please retry on destination": {
+          message: "Bridge message blocked. Retry on the destination chain.",
+          category: "contract-revert",
+        },
+        "LayerZero: LzTokenUnavailable": {
+          message:
+            "The bridge does not have enough liquidity of this token right now.",
+          category: "liquidity",
+        },
+      },
+    },
+    {
+      name: "Li.Fi / Stargate Bridge Errors",
+      category: "invalid-input",
+      entries: {
+        "1001": {
+          message:
+            "No route found. Your address might not have enough balance for any available bridge.",
+          category: "insufficient-funds",
+        },
+        "1007": {
+          message:
+            "Slippage error on the bridge. The exchange rate changed during the transfer.",
+          category: "slippage",
+        },
+        NOT_PROCESSABLE_REFUND_NEEDED: {
+          message:
+            "The bridge failed due to price movement. A refund has been triggered.",
+          category: "slippage",
+        },
+        AMOUNT_TOO_LOW: "The amount is too small to bridge. Please send more.",
+        AMOUNT_TOO_HIGH:
+          "This bridge has a limit. Try a smaller amount or a different bridge.",
+        "Stargate: Not enough liquidity": {
+          message:
+            "The destination chain's pool is low on funds. Try again later.",
+          category: "liquidity",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,270 @@
+import type { ErrorPack } from "../../types";
+
+export const COMMON_PACK: ErrorPack = {
+  name: "common",
+  description:
+    "Chain-agnostic wallet rejections, balance, slippage, network and validation errors.",
+  sections: [
+    {
+      name: "User Actions / Wallet Rejections (Generic)",
+      category: "user-rejected",
+      entries: {
+        ACTION_REJECTED: "The transaction was cancelled in your wallet.",
+        USER_REJECTED: "You declined the request in your wallet.",
+        "User rejected": "You declined the request in your wallet.",
+        "User denied": "You declined the request in your wallet.",
+        "user rejected transaction":
+          "You cancelled the transaction in your wallet.",
+        "user rejected signing": "You cancelled the signing request.",
+        "Request rejected": "You declined the request in your wallet.",
+        "User cancelled": "You cancelled the transaction.",
+        "User closed":
+          "You closed the wallet popup without completing the action.",
+        "Rejected by user": "You declined the request.",
+        "User disapproved": "You declined the request.",
+      },
+    },
+    {
+      name: "Insufficient Funds / Balance Errors",
+      category: "insufficient-funds",
+      entries: {
+        INSUFFICIENT_FUNDS: {
+          message:
+            "You don't have enough gas (ETH/native token) to pay for this transaction.",
+          template:
+            "You don't have enough gas on {network} to pay for this transaction.",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "insufficient funds":
+          "You don't have enough balance for this transaction.",
+        "insufficient balance": {
+          message: "Your token balance is too low for this swap.",
+          template: "Your {fromToken} balance is too low for this swap.",
+        },
+        "exceeds balance": {
+          message: "The amount exceeds your available balance.",
+          template: "{amount} {fromToken} exceeds your available balance.",
+        },
+        "transfer amount exceeds balance": {
+          message: "You're trying to send more tokens than you have.",
+          template: "You're trying to send more {fromToken} than you have.",
+        },
+        "burn amount exceeds balance":
+          "You're trying to burn more tokens than you have.",
+        InsufficientBalance: {
+          message: "Your balance is too low for this transaction.",
+          template: "Your {fromToken} balance is too low for this transaction.",
+        },
+      },
+    },
+    {
+      name: "Slippage / Price Impact Errors",
+      category: "slippage",
+      entries: {
+        INSUFFICIENT_OUTPUT_AMOUNT: {
+          message:
+            "Price moved too much. Try increasing your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+        },
+        INSUFFICIENT_INPUT_AMOUNT: {
+          message: "Input amount too small for this swap. Try a larger amount.",
+          category: "invalid-input",
+        },
+        EXCESSIVE_INPUT_AMOUNT:
+          "Price moved unfavorably. Try increasing your slippage tolerance.",
+        "Too little received": {
+          message: "Price changed too much. Increase your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+        },
+        "Too much requested":
+          "Price changed unfavorably. Try increasing slippage.",
+        "Price slippage check":
+          "Price moved beyond your slippage tolerance. Try increasing it.",
+        SlippageToleranceExceeded:
+          "Price moved too much. Increase your slippage tolerance.",
+        INSUFFICIENT_LIQUIDITY: {
+          message: "Not enough liquidity for this trade. Try a smaller amount.",
+          template:
+            "Not enough {fromToken}/{toToken} liquidity for this trade. Try a smaller amount.",
+          category: "liquidity",
+        },
+        InsufficientLiquidity: {
+          message:
+            "Not enough liquidity. Try a smaller amount or different pair.",
+          category: "liquidity",
+        },
+      },
+    },
+    {
+      name: "Network / Connection Errors",
+      category: "network",
+      entries: {
+        NETWORK_ERROR:
+          "Network connection issue. Please check your internet and try again.",
+        "network changed": {
+          message: "Network changed. Please reconnect your wallet.",
+          category: "chain-mismatch",
+          actions: ["RECONNECT_WALLET"],
+        },
+        TIMEOUT:
+          "Request timed out. Please check your connection and try again.",
+        "Failed to fetch":
+          "Network error. Please check your internet connection.",
+        NetworkError: "Connection failed. Check your internet and try again.",
+        "could not detect network":
+          "Unable to connect to the network. Please try again.",
+        "missing response": "No response from the network. Please try again.",
+        "connection refused":
+          "Could not connect to the network. Try again later.",
+        ETIMEDOUT: "Connection timed out. Please try again.",
+        ECONNREFUSED: "Connection refused. Please try again later.",
+        "network does not support": {
+          message: "This feature is not supported on this network.",
+          category: "chain-mismatch",
+        },
+      },
+    },
+    {
+      name: "MEV / Sandwich Attack Protection",
+      category: "slippage",
+      entries: {
+        frontrun:
+          "Transaction may have been front-run. Try using MEV protection.",
+        sandwich:
+          "Potential sandwich attack detected. Consider using MEV protection.",
+        MEV: "MEV protection triggered. Try using a private RPC.",
+      },
+    },
+    {
+      name: "Miscellaneous / Generic Errors",
+      category: "rpc",
+      entries: {
+        "Header not found": "Block not found. Please try again.",
+        "Unknown block": "Block not found. The network may be syncing.",
+        "pruned data": "Historical data not available. Try a different RPC.",
+        "rate limit": {
+          message: "Too many requests. Please wait a moment and try again.",
+          category: "rate-limit",
+        },
+        "Too Many Requests": {
+          message: "Rate limited. Please wait and try again.",
+          category: "rate-limit",
+        },
+        exceeded: {
+          message: "Limit exceeded. Please try again later.",
+          category: "rate-limit",
+        },
+        Forbidden: {
+          message: "Access denied. Please check your permissions.",
+          category: "permission",
+        },
+        Unauthorized: {
+          message: "Not authorized. Please reconnect your wallet.",
+          category: "wallet-connection",
+        },
+      },
+    },
+    {
+      name: "Additional Common Error Patterns",
+      category: "invalid-input",
+      entries: {
+        "Invalid chain": {
+          message: "Invalid blockchain network. Please switch networks.",
+          category: "chain-mismatch",
+        },
+        "Chain not supported": {
+          message: "This blockchain is not supported.",
+          category: "chain-mismatch",
+        },
+        "Invalid token": "Invalid token address. Please check the token.",
+        "Token not found": "Token not found on this network.",
+        "Pair not found": {
+          message: "Trading pair not found. Please check the tokens.",
+          category: "liquidity",
+        },
+        "Route not found": {
+          message: "No swap route found. Try different tokens.",
+          category: "liquidity",
+        },
+        "Price impact too high": {
+          message: "Price impact is too high. Try a smaller amount.",
+          category: "slippage",
+        },
+        "Minimum amount not met":
+          "Amount is below the minimum. Try a larger amount.",
+        "Maximum amount exceeded":
+          "Amount exceeds the maximum. Try a smaller amount.",
+        "Pool not found": {
+          message: "Liquidity pool not found. Please check the tokens.",
+          category: "liquidity",
+        },
+        "Pool paused": {
+          message: "This pool is paused. Please try again later.",
+          category: "contract-revert",
+        },
+        "Pool closed": {
+          message: "This pool is closed. Please try a different pool.",
+          category: "contract-revert",
+        },
+        "Invalid deadline": {
+          message: "Transaction deadline is invalid. Please try again.",
+          category: "deadline",
+        },
+        "Deadline too short": {
+          message: "Transaction deadline is too short. Please increase it.",
+          category: "deadline",
+        },
+        "Invalid recipient":
+          "Invalid recipient address. Please check the address.",
+        "Invalid sender": "Invalid sender address. Please check your wallet.",
+        "Invalid amount": "Invalid amount specified. Please check your input.",
+        "Amount too small": "Amount is too small. Please try a larger amount.",
+        "Amount too large": "Amount is too large. Please try a smaller amount.",
+        "Zero amount": "Amount cannot be zero. Please specify an amount.",
+        "Same token":
+          "Cannot swap the same token. Please select different tokens.",
+        "Invalid path": "Invalid swap path. Please try again.",
+        "Path too long": "Swap path is too long. Please try a simpler route.",
+        "Path not found": {
+          message: "No swap path found. Please try different tokens.",
+          category: "liquidity",
+        },
+      },
+    },
+    {
+      name: "Validation Errors",
+      category: "invalid-input",
+      entries: {
+        "recipient address is required":
+          "Recipient address is required. Please enter the recipient's wallet address.",
+        "amount must be greater than 0":
+          "Please enter an amount greater than 0.",
+        "token chain id is required":
+          "Network information is missing. Please select the correct network for this token.",
+        "token address is required":
+          "Token address is required. Please provide a token contract address.",
+        "token decimals is required":
+          "Token decimal is required. Please provide the correct token details.",
+        "wallet not connected or chain not selected": {
+          message:
+            "Wallet not connected or network not selected. Please connect your wallet and choose the correct network.",
+          category: "wallet-connection",
+        },
+        "fee rate unavailable": {
+          message:
+            "Unable to calculate transaction fees. Please try again in a moment.",
+          category: "network",
+        },
+        "missing exchange params":
+          "Exchange parameters are missing. Please refresh the page and try again.",
+        "exchange order failed": {
+          message:
+            "Exchange order could not be completed. Please try again or contact support.",
+          category: "contract-revert",
+        },
+      },
+    },
+  ],
+};
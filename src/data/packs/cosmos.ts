@@ -0,0 +1,24 @@
+import type { ErrorPack } from "../../types";
+
+export const COSMOS_PACK: ErrorPack = {
+  name: "cosmos",
+  description: "Keplr and Cosmos wallet errors.",
+  sections: [
+    {
+      name: "Keplr / Cosmos Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Keplr - Rejected": "You declined the request in Keplr.",
+        "Request rejected by user": "You declined the request.",
+        "Failed to retrieve account": {
+          message: "Could not get account from Keplr. Please reconnect.",
+          category: "wallet-connection",
+        },
+        "Key not found": {
+          message: "Account not found. Please add this chain to Keplr.",
+          category: "chain-mismatch",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,33 @@
+import type { ErrorPack } from "../../types";
+
+export const CURVE_PACK: ErrorPack = {
+  name: "curve",
+  description: "Curve Finance pool errors.",
+  sections: [
+    {
+      name: "Curve Finance Errors",
+      category: "slippage",
+      entries: {
+        "Curve: insufficient output":
+          "Price moved too much. Increase slippage tolerance.",
+        "Curve: insufficient input": {
+          message: "Input amount too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "Curve: insufficient liquidity": {
+          message: "Not enough liquidity for this trade.",
+          category: "liquidity",
+        },
+        "Curve: expired": {
+          message: "Quote expired. Please try again.",
+          category: "deadline",
+        },
+        "Curve: slippage": "Price moved beyond your slippage tolerance.",
+        "Curve: math error": {
+          message: "Calculation error. Please try again.",
+          category: "contract-revert",
+        },
+      },
+    },
+  ],
+};
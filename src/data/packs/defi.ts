@@ -0,0 +1,57 @@
+import type { ErrorPack } from "../../types";
+
+export const DEFI_PACK: ErrorPack = {
+  name: "defi",
+  description: "Staking, oracle and flash loan errors.",
+  sections: [
+    {
+      name: "Staking / DeFi Protocol Errors",
+      category: "contract-revert",
+      entries: {
+        "Staking: insufficient balance": {
+          message: "Insufficient balance for staking.",
+          category: "insufficient-funds",
+        },
+        "Staking: already staked":
+          "You have already staked. Please unstake first.",
+        "Staking: not staked": "You have not staked yet. Please stake first.",
+        "Staking: locked":
+          "Staking is locked. Please wait for the lock period to end.",
+        "Staking: paused": "Staking is paused. Please try again later.",
+        "Rewards: not available": "Rewards are not available yet. Please wait.",
+        "Rewards: already claimed": "Rewards have already been claimed.",
+        "Vesting: locked": "Tokens are still vesting. Please wait.",
+        "Vesting: not started": "Vesting has not started yet. Please wait.",
+      },
+    },
+    {
+      name: "Oracle / Price Feed Errors",
+      category: "contract-revert",
+      entries: {
+        "Oracle: price not available":
+          "Price data is not available. Please try again.",
+        "Oracle: stale price": "Price data is stale. Please refresh.",
+        "Oracle: price too old": "Price data is too old. Please refresh.",
+        "Oracle: invalid price": "Invalid price data. Please try again.",
+      },
+    },
+    {
+      name: "Flash Loan Errors",
+      category: "contract-revert",
+      entries: {
+        "Flash loan: insufficient liquidity": {
+          message: "Not enough liquidity for flash loan.",
+          category: "liquidity",
+        },
+        "Flash loan: callback failed":
+          "Flash loan callback failed. Please check your contract.",
+        "Flash loan: not repaid":
+          "Flash loan was not repaid. Please repay the loan.",
+        "Flash loan: invalid amount": {
+          message: "Invalid flash loan amount. Please check your request.",
+          category: "invalid-input",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,28 @@
+import type { ErrorPack } from "../../types";
+
+export const DODO_PACK: ErrorPack = {
+  name: "dodo",
+  description: "DODO pool errors.",
+  sections: [
+    {
+      name: "DODO Errors",
+      category: "slippage",
+      entries: {
+        "DODO: insufficient output":
+          "Price moved too much. Increase slippage tolerance.",
+        "DODO: insufficient input": {
+          message: "Input amount too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "DODO: insufficient liquidity": {
+          message: "Not enough liquidity for this trade.",
+          category: "liquidity",
+        },
+        "DODO: expired": {
+          message: "Quote expired. Please try again.",
+          category: "deadline",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,65 @@
+import type { ErrorPack } from "../../types";
+
+export const ERC4337_PACK: ErrorPack = {
+  name: "erc4337",
+  description: "ERC-4337 EntryPoint (account abstraction) AAxx errors.",
+  sections: [
+    {
+      name: "ERC-4337 EntryPoint Errors (Account Abstraction)",
+      category: "contract-revert",
+      entries: {
+        AA10: {
+          message: "Account already exists. You cannot initialize it again.",
+          category: "invalid-input",
+        },
+        AA13: {
+          message:
+            "Wallet creation failed. Check if your factory has enough gas.",
+          category: "gas",
+        },
+        AA20: {
+          message:
+            "Smart account not deployed yet. Please ensure the first transaction includes initCode.",
+          category: "invalid-input",
+        },
+        AA21: {
+          message:
+            "You don't have enough native tokens to pay for this transaction's gas.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        AA23: {
+          message:
+            "Transaction validation failed. This usually means the signature is wrong or gas is too low.",
+          category: "signature",
+        },
+        AA24: {
+          message:
+            "Signature error. Your wallet couldn't verify the transaction author.",
+          category: "signature",
+        },
+        AA25: {
+          message:
+            "Transaction sequence error. Another transaction from this account might be pending.",
+          category: "nonce",
+        },
+        AA31: {
+          message:
+            "The gas sponsor (Paymaster) has run out of funds. Try again later.",
+          category: "insufficient-funds",
+        },
+        AA33: {
+          message:
+            "Gas sponsorship was rejected. You might not meet the sponsor's criteria.",
+          category: "permission",
+        },
+        AA40: {
+          message:
+            "Transaction verification took too much gas. Try increasing the gas limit.",
+          category: "gas",
+        },
+        AA51: "Execution failed after validation. The smart contract logic reverted.",
+      },
+    },
+  ],
+};
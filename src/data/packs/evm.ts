@@ -0,0 +1,639 @@
+import type { ErrorPack } from "../../types";
+
+export const EVM_PACK: ErrorPack = {
+  name: "evm",
+  description:
+    "Generic EVM errors: gas, nonce, reverts, panic codes, EIP-1193/EIP-1474 RPC codes, viem and ethers.",
+  sections: [
+    {
+      name: "Allowance / Approval Errors",
+      category: "allowance",
+      entries: {
+        "insufficient allowance": {
+          message: "You need to approve the token first before swapping.",
+          template: "You need to approve {fromToken} first before swapping.",
+        },
+        "gas estimation failed: insufficient allowance": {
+          message:
+            "Gas estimation failed because the token isn't approved yet. Approve it first, then try again.",
+          template:
+            "Gas estimation failed because {fromToken} isn't approved yet. Approve it first, then try again.",
+          pattern:
+            /(?:gas estimation failed|cannot estimate gas|failed to estimate gas|estimateGas)[\s\S]*insufficient allowance/i,
+        },
+        "allowance exceeded":
+          "Token approval needed. Please approve the token first.",
+        "ERC20: insufficient allowance": {
+          message: "Please approve the token before swapping.",
+          template: "Please approve {fromToken} before swapping.",
+        },
+        "SafeERC20: low-level call failed":
+          "Token transfer failed. The token may require approval or has transfer restrictions.",
+        TRANSFER_FROM_FAILED:
+          "Token approval failed or you have insufficient balance of the token you are selling.",
+        STF: "Token transfer failed. Make sure you have approved the token.",
+        "TransferHelper: TRANSFER_FROM_FAILED":
+          "Token transfer failed. Please approve the token or check your balance.",
+        "TransferHelper::transferFrom: transferFrom failed":
+          "Token transfer failed. Please approve or check balance.",
+      },
+    },
+    {
+      name: "Gas Related Errors",
+      category: "gas",
+      entries: {
+        "insufficient funds for gas * price + value: have, want": {
+          message:
+            "You don't have enough native tokens to cover this transaction and its gas.",
+          template:
+            "You need {shortfall} more {nativeSymbol} to cover this transaction.",
+          pattern:
+            /insufficient funds for gas \* price \+ value:(?: address \S+)? have (?<have>\d+) want (?<want>\d+)/i,
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "gas required exceeds allowance":
+          "Gas limit too low. Try increasing the gas limit.",
+        "intrinsic gas too low":
+          "Gas limit is too low for this transaction. Increase gas limit.",
+        "intrinsic gas too low: have, want": {
+          message:
+            "Gas limit is too low for this transaction. Increase gas limit.",
+          template:
+            "Gas limit is too low for this transaction. Set it to at least {requiredGas}.",
+          pattern:
+            /intrinsic gas too low: have (?<gasLimit>\d+), want (?<requiredGas>\d+)/i,
+        },
+        "insufficient gas for floor data gas cost: have, want": {
+          message:
+            "Gas limit is too low for this transaction's data. Increase gas limit.",
+          template:
+            "Gas limit is too low for this transaction's data. Set it to at least {requiredGas}.",
+          pattern:
+            /insufficient gas for floor data gas cost: have (?<gasLimit>\d+), want (?<requiredGas>\d+)/i,
+        },
+        "out of gas":
+          "Transaction ran out of gas. Try increasing the gas limit.",
+        "exceeds block gas limit":
+          "Transaction too large. Try splitting into smaller transactions.",
+        "max fee per gas less than block base fee": {
+          message: "Gas price too low. Increase your gas fee.",
+          actions: ["SPEED_UP"],
+        },
+        "max fee per gas less than block base fee: maxFeePerGas, baseFee": {
+          message: "Gas price too low. Increase your gas fee.",
+          template:
+            "Your max fee ({maxFeePerGas} wei) is below the current base fee ({baseFee} wei). Increase your gas fee.",
+          pattern:
+            /max fee per gas less than block base fee:(?: address \S+)? maxFeePerGas: (?<maxFeePerGas>\d+),? baseFee: (?<baseFee>\d+)/i,
+          actions: ["SPEED_UP"],
+        },
+        "replacement transaction underpriced": {
+          message:
+            "Gas price too low to replace pending transaction. Increase gas fee.",
+          // Geth's default replacement price bump
+          details: { bumpPercent: "10" },
+          actions: ["SPEED_UP"],
+        },
+        "replacement transaction underpriced: gas fee cap, replacement penalty":
+          {
+            message:
+              "Gas price too low to replace pending transaction. Increase gas fee.",
+            template:
+              "Gas price too low to replace pending transaction. Increase the gas fee by at least {bumpPercent}%.",
+            pattern:
+              /replacement transaction underpriced: new tx gas fee cap (?<feeCap>\d+) <= (?<queuedFeeCap>\d+) queued \+ (?<bumpPercent>\d+)% replacement penalty/i,
+            actions: ["SPEED_UP"],
+          },
+        "replacement transaction underpriced: gas tip cap, replacement penalty":
+          {
+            message:
+              "Priority fee too low to replace pending transaction. Increase gas fee.",
+            template:
+              "Priority fee too low to replace pending transaction. Increase it by at least {bumpPercent}%.",
+            pattern:
+              /replacement transaction underpriced: new tx gas tip cap (?<tipCap>\d+) <= (?<queuedTipCap>\d+) queued \+ (?<bumpPercent>\d+)% replacement penalty/i,
+            actions: ["SPEED_UP"],
+          },
+        REPLACEMENT_UNDERPRICED: {
+          message:
+            "Gas price too low to speed up transaction. Increase gas fee.",
+          details: { bumpPercent: "10" },
+          actions: ["SPEED_UP"],
+        },
+        "max priority fee per gas higher than max fee per gas":
+          "Invalid gas settings. Priority fee cannot exceed max fee.",
+        "max priority fee per gas higher than max fee per gas: maxPriorityFeePerGas, maxFeePerGas":
+          {
+            message:
+              "Invalid gas settings. Priority fee cannot exceed max fee.",
+            pattern:
+              /max priority fee per gas higher than max fee per gas:(?: address \S+)? maxPriorityFeePerGas: (?<maxPriorityFeePerGas>\d+),? maxFeePerGas: (?<maxFeePerGas>\d+)/i,
+            category: "invalid-input",
+          },
+        "transaction underpriced": {
+          message: "Gas price too low. Increase your gas fee and try again.",
+          actions: ["SPEED_UP"],
+        },
+        "transaction gas price below minimum: gas tip cap, minimum needed": {
+          message:
+            "Priority fee too low for this network. Increase your gas fee and try again.",
+          pattern: /gas tip cap (?<tipCap>\d+), minimum needed (?<minTip>\d+)/i,
+          actions: ["SPEED_UP"],
+        },
+      },
+    },
+    {
+      name: "Nonce Errors",
+      category: "nonce",
+      entries: {
+        NONCE_EXPIRED: {
+          message: "Transaction outdated. Please refresh and try again.",
+          details: { nonceIssue: "stuck-pending" },
+        },
+        "nonce too low": {
+          message:
+            "You have a pending transaction. Wait for it to complete or speed it up.",
+          details: { nonceIssue: "stuck-pending" },
+          actions: ["SPEED_UP"],
+        },
+        "nonce too low: next nonce, tx nonce": {
+          message:
+            "You have a pending transaction. Wait for it to complete or speed it up.",
+          template:
+            "Transaction #{providedNonce} was already used; your wallet is at #{expectedNonce}. Wait for pending transactions or speed them up.",
+          pattern:
+            /nonce too low: next nonce (?<expectedNonce>\d+), tx nonce (?<providedNonce>\d+)/i,
+          details: { nonceIssue: "stuck-pending" },
+          actions: ["SPEED_UP"],
+        },
+        // Geth and Erigon
+        "nonce too low: tx, state": {
+          message:
+            "You have a pending transaction. Wait for it to complete or speed it up.",
+          template:
+            "Transaction #{providedNonce} was already used; your wallet is at #{expectedNonce}. Wait for pending transactions or speed them up.",
+          pattern:
+            /nonce too low:(?: address \S+)? tx: (?<providedNonce>\d+),? state: (?<expectedNonce>\d+)/i,
+          details: { nonceIssue: "stuck-pending" },
+          actions: ["SPEED_UP"],
+        },
+        // Nethermind
+        "OldNonce: current nonce, nonce of rejected tx": {
+          message:
+            "You have a pending transaction. Wait for it to complete or speed it up.",
+          template:
+            "Transaction #{providedNonce} was already used; your wallet is at #{expectedNonce}. Wait for pending transactions or speed them up.",
+          pattern:
+            /OldNonce,? Current nonce: (?<expectedNonce>\d+), nonce of rejected tx: (?<providedNonce>\d+)/i,
+          details: { nonceIssue: "stuck-pending" },
+          actions: ["SPEED_UP"],
+        },
+        // Besu
+        "transaction nonce below sender account nonce": {
+          message:
+            "You have a pending transaction. Wait for it to complete or speed it up.",
+          template:
+            "Transaction #{providedNonce} was already used; your wallet is at #{expectedNonce}. Wait for pending transactions or speed them up.",
+          pattern:
+            /transaction nonce (?<providedNonce>\d+) below sender account nonce (?<expectedNonce>\d+)/i,
+          details: { nonceIssue: "stuck-pending" },
+          actions: ["SPEED_UP"],
+        },
+        // viem NonceTooLowError
+        "nonce provided for the transaction is lower than the current nonce": {
+          message:
+            "You have a pending transaction. Wait for it to complete or speed it up.",
+          pattern:
+            /Nonce provided for the transaction(?: \((?<providedNonce>\d+)\))? is lower than the current nonce/i,
+          details: { nonceIssue: "stuck-pending" },
+          actions: ["SPEED_UP"],
+        },
+        "nonce too high": {
+          message:
+            "Transaction sequence error. Try resetting your wallet's transaction history.",
+          details: { nonceIssue: "gap" },
+          retryable: false,
+          actions: [],
+        },
+        "nonce too high: tx, state": {
+          message:
+            "Transaction sequence error. Try resetting your wallet's transaction history.",
+          template:
+            "Transaction #{providedNonce} skips ahead of #{expectedNonce}, the next one expected. Send or cancel the missing transactions first.",
+          pattern:
+            /nonce too high:(?: address \S+)? tx: (?<providedNonce>\d+),? state: (?<expectedNonce>\d+)/i,
+          details: { nonceIssue: "gap" },
+          retryable: false,
+          actions: [],
+        },
+        // viem NonceTooHighError
+        "nonce provided for the transaction is higher than the next one expected":
+          {
+            message:
+              "Transaction sequence error. Try resetting your wallet's transaction history.",
+            pattern:
+              /Nonce provided for the transaction(?: \((?<providedNonce>\d+)\))? is higher than the next one expected/i,
+            details: { nonceIssue: "gap" },
+            retryable: false,
+            actions: [],
+          },
+        "already known": {
+          message:
+            "This transaction is already pending. Please wait for it to complete.",
+          details: { nonceIssue: "duplicate" },
+          retryable: false,
+          severity: "info",
+          actions: [],
+        },
+        "replacement fee too low": {
+          message:
+            "Fee too low to replace pending transaction. Increase gas fee.",
+          category: "gas",
+          actions: ["SPEED_UP"],
+        },
+      },
+    },
+    {
+      name: "Transaction Errors",
+      category: "contract-revert",
+      entries: {
+        TRANSACTION_REPLACED: {
+          message: "Your transaction was replaced by another one.",
+          category: "nonce",
+          retryable: false,
+          severity: "info",
+          actions: [],
+        },
+        EXPIRED: {
+          message:
+            "The swap took too long to confirm. Please try again with a higher gas fee.",
+          category: "deadline",
+        },
+        "transaction failed": "The transaction failed. Please try again.",
+        "execution reverted":
+          "Transaction was rejected by the network. Check your inputs.",
+        reverted: "Transaction failed. Please check your inputs and try again.",
+        revert: "Transaction failed. Please check your inputs and try again.",
+        CALL_EXCEPTION: "The contract call failed. Please try again.",
+        "invalid opcode":
+          "Smart contract error. Please try again or contact support.",
+        "stack too deep": "Smart contract error. Please try again.",
+        NOT_IMPLEMENTED: {
+          message: "This feature is not implemented yet.",
+          category: "invalid-input",
+        },
+        UNSUPPORTED_OPERATION: {
+          message: "This operation is not supported.",
+          category: "invalid-input",
+        },
+        SERVER_ERROR: {
+          message: "Server error occurred. Please try again.",
+          category: "rpc",
+        },
+        BAD_DATA: {
+          message: "Invalid data provided. Please check your inputs.",
+          category: "invalid-input",
+        },
+        CANCELLED: { message: "The operation was cancelled.", category: "rpc" },
+        BUFFER_OVERRUN: {
+          message: "Buffer overflow error. Please try again.",
+          category: "invalid-input",
+        },
+        NUMERIC_FAULT: {
+          message: "Numeric calculation error. Please check your values.",
+          category: "invalid-input",
+        },
+        INVALID_ARGUMENT: {
+          message: "Invalid argument provided. Please check your inputs.",
+          category: "invalid-input",
+        },
+        MISSING_ARGUMENT: {
+          message:
+            "Required argument is missing. Please provide all required parameters.",
+          category: "invalid-input",
+        },
+        UNEXPECTED_ARGUMENT: {
+          message: "Unexpected argument provided. Please check your inputs.",
+          category: "invalid-input",
+        },
+        VALUE_MISMATCH: {
+          message: "Value mismatch error. Please check your inputs.",
+          category: "invalid-input",
+        },
+        UNCONFIGURED_NAME: {
+          message: "Name not configured. Please check your configuration.",
+          category: "invalid-input",
+        },
+        OFFCHAIN_FAULT: {
+          message: "Off-chain error occurred. Please try again.",
+          category: "network",
+        },
+      },
+    },
+    {
+      name: "Solidity Panic Codes (0x...)",
+      category: "contract-revert",
+      entries: {
+        "0x01": "Assertion failed. Internal contract error.",
+        "0x11":
+          "Arithmetic error: Number too big or too small (overflow/underflow).",
+        "0x12": "Division by zero error.",
+        "0x21": "Invalid number conversion (enum conversion failed).",
+        "0x22": "Data storage error (incorrectly encoded storage byte array).",
+        "0x31": "Empty array pop error.",
+        "0x32": "Array index out of bounds exception.",
+        "0x41": "Memory allocation error (too much memory requested).",
+        "0x51": "Internal function call error (zero-initialized variable).",
+      },
+    },
+    {
+      name: "RPC Errors (EIP-1193 & EIP-1474)",
+      category: "rpc",
+      entries: {
+        "-32700": "Invalid request format (Parse Error). Please try again.",
+        "-32600": "Invalid request. Please try again.",
+        "-32601": {
+          message: "Method not supported by your wallet.",
+          retryable: false,
+          severity: "error",
+        },
+        "-32602": {
+          message: "Invalid parameters. Please check your inputs.",
+          category: "invalid-input",
+        },
+        "-32603": "Internal JSON-RPC error. Please try again.",
+        "-32000": "Server error. Please try again.",
+        "-32001": "Resource not found. Please try again.",
+        "-32002": {
+          message: "Request already pending. Please wait.",
+          retryable: false,
+        },
+        "-32003": "Transaction rejected by the network.",
+        "-32004": {
+          message: "Method not supported.",
+          retryable: false,
+          severity: "error",
+        },
+        "-32005": {
+          message: "Request limit exceeded. Please wait and try again.",
+          category: "rate-limit",
+        },
+        "-32006": {
+          message: "Request limit exceeded. Please wait and try again.",
+          category: "rate-limit",
+        },
+        "4001": {
+          message: "You declined the request in your wallet.",
+          category: "user-rejected",
+        },
+        "4100": {
+          message:
+            "Wallet is locked or the requested method is not authorized.",
+          category: "wallet-locked",
+        },
+        "4200": {
+          message: "This method is not supported by your wallet.",
+          retryable: false,
+          severity: "error",
+        },
+        "4900": {
+          message: "Wallet is disconnected. Please reconnect.",
+          category: "wallet-connection",
+        },
+        "4901": {
+          message:
+            "Wallet is connected to a different network. Please switch networks.",
+          template:
+            "Wallet is connected to a different network. Please switch to {network}.",
+          category: "chain-mismatch",
+        },
+        "5000": {
+          message: "User rejected the request.",
+          category: "user-rejected",
+        },
+        "5001": {
+          message: "Chain ID does not match.",
+          category: "chain-mismatch",
+        },
+      },
+    },
+    {
+      name: "Viem-specific errors",
+      category: "rpc",
+      entries: {
+        InternalRpcError: "Internal RPC error. Please try again.",
+        HttpRequestError: {
+          message: "HTTP request failed. Please check your connection.",
+          category: "network",
+        },
+        InvalidInputError: {
+          message: "Invalid input provided. Please check your parameters.",
+          category: "invalid-input",
+        },
+        TransactionNotFoundError:
+          "Transaction not found. Please check the transaction hash.",
+        BlockNotFoundError:
+          "Block not found. Please check the block number or hash.",
+        LogNotFoundError: "Log not found. Please check your query parameters.",
+      },
+    },
+    {
+      name: "Token Specific Errors",
+      category: "contract-revert",
+      entries: {
+        "ERC20: transfer to the zero address": {
+          message: "Invalid recipient address. Please check the address.",
+          category: "invalid-input",
+        },
+        "ERC20: approve to the zero address": {
+          message: "Invalid approval address. Please check the address.",
+          category: "invalid-input",
+        },
+        "ERC20: transfer from the zero address": {
+          message: "Invalid sender address.",
+          category: "invalid-input",
+        },
+        "ERC20: mint to the zero address": {
+          message: "Invalid minting address.",
+          category: "invalid-input",
+        },
+        "ERC20: burn from the zero address": {
+          message: "Invalid burn address.",
+          category: "invalid-input",
+        },
+        "ERC20: decreased allowance below zero": {
+          message: "Cannot decrease allowance below zero.",
+          category: "allowance",
+        },
+        "Pausable: paused": "This token is currently paused. Please try later.",
+        "Ownable: caller is not the owner": {
+          message: "You don't have permission for this action.",
+          category: "permission",
+        },
+        AccessControl: {
+          message: "You don't have the required permissions for this action.",
+          category: "permission",
+        },
+        Blacklisted: {
+          message: "This address has been restricted from trading.",
+          category: "permission",
+        },
+        "Trading not enabled": "Trading is not yet enabled for this token.",
+        "Max transaction": "Amount exceeds maximum transaction limit.",
+        "Max wallet": "This would exceed the maximum wallet holding limit.",
+        "Buy limit": "This exceeds the buy limit for this token.",
+        "Sell limit": "This exceeds the sell limit for this token.",
+        Cooldown: "Please wait before making another transaction.",
+        "Anti-bot":
+          "Transaction blocked by anti-bot protection. Try again shortly.",
+        "Tax too high": {
+          message: "Token tax is too high for this trade.",
+          category: "slippage",
+        },
+      },
+    },
+    {
+      name: "Contract Interaction Errors",
+      category: "invalid-input",
+      entries: {
+        "contract not deployed": {
+          message:
+            "Smart contract not found on this network. Check the network.",
+          category: "chain-mismatch",
+        },
+        "invalid address":
+          "Invalid address provided. Please check and try again.",
+        "invalid signature": {
+          message: "Invalid signature. Please try signing again.",
+          category: "signature",
+        },
+        "signature expired": {
+          message: "Signature expired. Please sign again.",
+          category: "signature",
+        },
+        deadline: {
+          message: "Transaction deadline passed. Please try again.",
+          category: "deadline",
+        },
+        "Deadline expired": {
+          message: "Quote expired. Please refresh and try again.",
+          category: "deadline",
+        },
+        "Already initialized": {
+          message: "This contract is already set up.",
+          category: "contract-revert",
+        },
+        "Not initialized": {
+          message: "Contract not ready. Please try again later.",
+          category: "contract-revert",
+        },
+      },
+    },
+    {
+      name: "Permit / Signature Errors",
+      category: "signature",
+      entries: {
+        "invalid permit":
+          "Permit signature is invalid. Please try approving again.",
+        "permit expired": "Permit expired. Please sign a new approval.",
+        INVALID_SIGNER: "Invalid signature. Please try signing again.",
+        EXPIRED_PERMIT: "Your permit has expired. Please sign again.",
+      },
+    },
+    {
+      name: "EVM Additional Errors",
+      category: "contract-revert",
+      entries: {
+        "has not been authorized by the user": {
+          message:
+            "Wallet connection issue detected. Please disconnect and reconnect your wallet.",
+          category: "wallet-connection",
+        },
+        "fail swap, not enough fee": {
+          message:
+            "Swap failed due to insufficient funds. Please ensure you have enough funds to complete the transaction.",
+          category: "insufficient-funds",
+        },
+        "insufficient native currency sent": {
+          message:
+            "Not enough native currency was sent with the transaction. Please check the required amount and try again.",
+          category: "insufficient-funds",
+        },
+        "stack limit reached":
+          "Stack limit reached. This might be due to complex operations or infinite loops. Please try again with a simpler operation.",
+        "method handler crashed": {
+          message: "There is an error in the operation. Please try again.",
+          category: "rpc",
+        },
+        "execution timeout": {
+          message: "Transaction took too long to execute. Please try again.",
+          category: "network",
+        },
+        "filter not found": {
+          message: "Filter expired. Please try again.",
+          category: "rpc",
+        },
+        "attempting to switch chain": {
+          message:
+            "Unable to switch to the required network. Please manually switch networks in your wallet.",
+          category: "chain-mismatch",
+        },
+      },
+    },
+    {
+      name: "Additional RPC Error Codes",
+      category: "rpc",
+      entries: {
+        "-32009": {
+          message:
+            "Debug requests are currently limited. Please try again later.",
+          category: "rate-limit",
+        },
+        "-32010": {
+          message:
+            "Transaction cost exceeds gas limit. Please increase gas limit.",
+          category: "gas",
+        },
+        "-32011": {
+          message:
+            "Network connection error. Please check your connection and try again.",
+          category: "network",
+        },
+        "-32015": {
+          message:
+            "Smart contract execution failed. Please check your transaction parameters and try again.",
+          category: "contract-revert",
+        },
+        "-32612": "Custom traces are not available.",
+        "-32613": "Requested trace type not allowed.",
+        LogRangeLimited:
+          "Too many blocks requested at once (limit: 10,000). Please reduce the block range.",
+        CustomTracesBlocked: "Custom traces are not available.",
+      },
+    },
+    {
+      name: "Solidity Custom Error Selectors (Hex)",
+      category: "contract-revert",
+      substring: true,
+      entries: {
+        "0x08c379a0": "The transaction reverted with a reason string.",
+        "0x4e487b71":
+          "The transaction panicked (arithmetic overflow or division by zero).",
+        "0x8baa579f": {
+          message: "Insufficient balance for this swap.",
+          category: "insufficient-funds",
+        },
+        "0xf4844814": {
+          message:
+            "Slippage error: The amount out is less than your minimum requirement.",
+          category: "slippage",
+        },
+        "0x31a57e3b": {
+          message: "The deadline for this transaction has passed.",
+          category: "deadline",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,28 @@
+import type { ErrorPack } from "../../types";
+
+export const KYBERSWAP_PACK: ErrorPack = {
+  name: "kyberswap",
+  description: "KyberSwap router errors.",
+  sections: [
+    {
+      name: "KyberSwap Errors",
+      category: "slippage",
+      entries: {
+        "KyberSwap: insufficient output":
+          "Price moved too much. Increase slippage tolerance.",
+        "KyberSwap: insufficient input": {
+          message: "Input amount too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "KyberSwap: insufficient liquidity": {
+          message: "Not enough liquidity for this trade.",
+          category: "liquidity",
+        },
+        "KyberSwap: expired": {
+          message: "Quote expired. Please try again.",
+          category: "deadline",
+        },
+      },
+    },
+  ],
+};
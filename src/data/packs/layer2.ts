@@ -0,0 +1,61 @@
+import type { ErrorPack } from "../../types";
+
+export const LAYER2_PACK: ErrorPack = {
+  name: "layer2",
+  description: "Arbitrum, OP Stack and other rollup errors.",
+  sections: [
+    {
+      name: "Arbitrum Retryables",
+      category: "gas",
+      entries: {
+        "retryable ticket expired": {
+          message:
+            "Arbitrum retryable expired. Re-send the transaction or re-create the ticket.",
+          category: "deadline",
+        },
+        "insufficient submission cost":
+          "L1 submission cost too low. Increase max fee and retry.",
+        "max gas too low":
+          "Not enough gas for L2 execution. Increase gas limit and retry.",
+        "oversize data": {
+          message:
+            "Transaction data too large for Arbitrum. Reduce transaction size.",
+          category: "invalid-input",
+        },
+      },
+    },
+    {
+      name: "OP Stack / Optimism",
+      category: "gas",
+      entries: {
+        "L2 execution failed": {
+          message:
+            "Execution failed on L2. Increase gas or check the contract call.",
+          category: "contract-revert",
+        },
+        "fee too low to cover L1 data":
+          "Base fee too low to pay L1 data costs. Increase the fee and retry.",
+      },
+    },
+    {
+      name: "Layer 2 / Rollup Errors",
+      category: "network",
+      entries: {
+        "L2: insufficient balance": {
+          message: "Insufficient balance on Layer 2. Please bridge funds.",
+          category: "insufficient-funds",
+        },
+        "L2: deposit pending":
+          "Deposit to Layer 2 is still pending. Please wait.",
+        "L2: withdrawal pending":
+          "Withdrawal from Layer 2 is still pending. Please wait.",
+        "L2: bridge error": {
+          message: "Bridge error occurred. Please try again.",
+          category: "contract-revert",
+        },
+        "L2: not available":
+          "Layer 2 feature is not available. Please try again later.",
+      },
+    },
+  ],
+};
@@ -0,0 +1,54 @@
+import type { ErrorPack } from "../../types";
+
+export const LEDGER_PACK: ErrorPack = {
+  name: "ledger",
+  description: "Ledger and hardware wallet errors.",
+  sections: [
+    {
+      name: "Ledger / Hardware Wallet Errors",
+      category: "wallet-connection",
+      entries: {
+        "Ledger device": {
+          message: "Please connect and unlock your Ledger device.",
+          category: "wallet-locked",
+        },
+        "Ledger locked": {
+          message: "Your Ledger is locked. Please unlock it.",
+          category: "wallet-locked",
+        },
+        TransportOpenUserCancelled: {
+          message: "Ledger connection was cancelled.",
+          category: "user-rejected",
+        },
+        TransportInterfaceNotAvailable:
+          "Ledger not accessible. Try reconnecting.",
+        DisconnectedDevice: "Ledger disconnected. Please reconnect.",
+        DisconnectedDeviceDuringOperation:
+          "Ledger disconnected during operation. Please reconnect and retry.",
+        "Denied by user on Ledger": {
+          message: "You rejected the request on your Ledger device.",
+          category: "user-rejected",
+        },
+        "Open app": "Please open the correct app on your Ledger.",
+        "App does not seem to be open":
+          "Please open the right app on your Ledger.",
+        "Device is busy": "Ledger is busy. Please wait and try again.",
+        "Invalid channel": "Invalid Ledger connection. Please reconnect.",
+        "Trezor: Action cancelled": {
+          message: "You cancelled the action on your Trezor.",
+          category: "user-rejected",
+        },
+        "Trezor: PIN cancelled": {
+          message: "PIN entry was cancelled on Trezor.",
+          category: "user-rejected",
+        },
+        "Trezor: Passphrase cancelled": {
+          message: "Passphrase entry was cancelled on Trezor.",
+          category: "user-rejected",
+        },
+        "Device call in progress":
+          "Hardware wallet is processing. Please wait.",
+      },
+    },
+  ],
+};
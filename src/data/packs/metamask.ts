@@ -0,0 +1,46 @@
+import type { ErrorPack } from "../../types";
+
+export const METAMASK_PACK: ErrorPack = {
+  name: "metamask",
+  description: "MetaMask-specific errors.",
+  sections: [
+    {
+      name: "MetaMask Specific Errors",
+      category: "signature",
+      entries: {
+        "MetaMask Tx Signature":
+          "MetaMask encountered an issue signing the transaction.",
+        "MetaMask Message Signature":
+          "MetaMask couldn't sign the message. Please try again.",
+        "MetaMask Personal Message Signature":
+          "MetaMask personal sign failed. Please try again.",
+        "MetaMask Typed Message Signature":
+          "MetaMask typed data signing failed. Please try again.",
+        "MetaMask Chain": {
+          message: "Please switch networks in MetaMask to continue.",
+          category: "chain-mismatch",
+        },
+        "MetaMask RPC Error": {
+          message: "MetaMask encountered an RPC error. Please try again.",
+          category: "rpc",
+        },
+        "User denied account authorization": {
+          message: "You declined to connect your MetaMask account.",
+          category: "user-rejected",
+        },
+        "Already processing eth_requestAccounts": {
+          message: "MetaMask is already processing a connection request.",
+          category: "wallet-connection",
+        },
+        "Request of type 'wallet_requestPermissions' already pending": {
+          message: "A permission request is already pending in MetaMask.",
+          category: "wallet-connection",
+        },
+        "eth_accounts not supported": {
+          message: "Please unlock MetaMask and try again.",
+          category: "wallet-locked",
+        },
+      },
+    },
+  ],
+};
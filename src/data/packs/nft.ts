@@ -0,0 +1,34 @@
+import type { ErrorPack } from "../../types";
+
+export const NFT_PACK: ErrorPack = {
+  name: "nft",
+  description: "NFT (ERC-721) errors.",
+  sections: [
+    {
+      name: "NFT / ERC721 Errors",
+      category: "contract-revert",
+      entries: {
+        "NFT: not owner": {
+          message: "You do not own this NFT.",
+          category: "permission",
+        },
+        "NFT: not approved": {
+          message: "NFT transfer is not approved. Please approve first.",
+          category: "allowance",
+        },
+        "NFT: already minted": "This NFT has already been minted.",
+        "NFT: minting paused": "NFT minting is paused. Please try again later.",
+        "NFT: max supply reached":
+          "Maximum supply reached. No more NFTs available.",
+        "NFT: invalid token ID": {
+          message: "Invalid NFT token ID. Please check the token ID.",
+          category: "invalid-input",
+        },
+        "NFT: not found": {
+          message: "NFT not found. Please check the token ID.",
+          category: "invalid-input",
+        },
+      },
+    },
+  ],
+};
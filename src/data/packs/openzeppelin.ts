@@ -0,0 +1,130 @@
+import type { ErrorPack } from "../../types";
+
+export const OPENZEPPELIN_PACK: ErrorPack = {
+  name: "openzeppelin",
+  description:
+    "ERC-6093 token errors and OpenZeppelin Contracts v5 custom errors.",
+  sections: [
+    {
+      name: "ERC-6093 Standard Custom Errors",
+      category: "invalid-input",
+      entries: {
+        ERC20InsufficientBalance: {
+          message: "Your token balance is too low for this transaction.",
+          category: "insufficient-funds",
+        },
+        ERC20InvalidSender:
+          "Invalid sender address for this token transaction.",
+        ERC20InvalidReceiver:
+          "Invalid recipient address for this token transaction.",
+        ERC20InsufficientAllowance: {
+          message: "You need to approve more tokens before this transaction.",
+          category: "allowance",
+        },
+        ERC20InvalidApprover: "Invalid address used for token approval.",
+        ERC20InvalidSpender: "Invalid spender address for token approval.",
+        ERC721InvalidOwner: {
+          message: "You do not own this NFT.",
+          category: "permission",
+        },
+        ERC721InvalidSender: {
+          message: "You are not authorized to send this NFT.",
+          category: "permission",
+        },
+        ERC721InvalidReceiver: "Invalid recipient address for this NFT.",
+        ERC721InsufficientApproval: {
+          message: "You need to approve this NFT transfer first.",
+          category: "allowance",
+        },
+        ERC721IncorrectOwner: {
+          message: "The NFT is not owned by the expected address.",
+          category: "permission",
+        },
+        ERC1155InsufficientBalance: {
+          message: "You do not have enough of these tokens/NFTs.",
+          category: "insufficient-funds",
+        },
+        ERC1155InvalidSender: {
+          message: "You are not authorized to send these tokens.",
+          category: "permission",
+        },
+        ERC1155InvalidReceiver: "Invalid recipient address for these tokens.",
+        ERC1155InsufficientApproval: {
+          message: "You need to approve this transfer first.",
+          category: "allowance",
+        },
+        ERC721NonexistentToken: "This NFT does not exist.",
+        ERC721InvalidApprover: "Invalid address used for NFT approval.",
+        ERC721InvalidOperator: "Invalid operator address for NFT approval.",
+        ERC1155MissingApprovalForAll: {
+          message: "You need to approve this collection for transfer first.",
+          category: "allowance",
+        },
+        ERC1155InvalidApprover: "Invalid address used for token approval.",
+        ERC1155InvalidOperator: "Invalid operator address for token approval.",
+        ERC1155InvalidArrayLength:
+          "Token IDs and amounts don't line up. Please check your inputs.",
+      },
+    },
+    {
+      name: "OpenZeppelin v5 Custom Errors",
+      category: "contract-revert",
+      entries: {
+        OwnableUnauthorizedAccount: {
+          message: "You don't have permission for this action.",
+          category: "permission",
+        },
+        OwnableInvalidOwner: {
+          message: "Invalid owner address for this contract.",
+          category: "invalid-input",
+        },
+        AccessControlUnauthorizedAccount: {
+          message: "You don't have the required role for this action.",
+          category: "permission",
+        },
+        AccessControlBadConfirmation: {
+          message: "Role change confirmation does not match.",
+          category: "permission",
+        },
+        EnforcedPause: "This contract is currently paused. Please try later.",
+        ExpectedPause:
+          "This action is only available while the contract is paused.",
+        ReentrancyGuardReentrantCall:
+          "The contract blocked a repeated call. Please try again.",
+        SafeERC20FailedOperation:
+          "Token transfer failed. The token may have transfer restrictions.",
+        SafeERC20FailedDecreaseAllowance: {
+          message: "Cannot reduce the approval below its current amount.",
+          category: "allowance",
+        },
+        AddressEmptyCode:
+          "The target address is not a contract on this network.",
+        AddressInsufficientBalance: {
+          message:
+            "The contract doesn't have enough native balance for this call.",
+          category: "insufficient-funds",
+        },
+        FailedInnerCall: "An internal contract call failed. Please try again.",
+        ERC2612ExpiredSignature: {
+          message: "Permit expired. Please sign a new approval.",
+          category: "signature",
+        },
+        ERC2612InvalidSigner: {
+          message: "Permit signature is invalid. Please try approving again.",
+          category: "signature",
+        },
+        InvalidAccountNonce: {
+          message: "Transaction sequence error. Please refresh and sign again.",
+          category: "nonce",
+        },
+        ECDSAInvalidSignature: {
+          message: "Invalid signature. Please try signing again.",
+          category: "signature",
+        },
+        SafeCastOverflowedUintDowncast:
+          "Amount too large for this contract. Try a smaller amount.",
+        MathOverflowedMulDiv: "Amount too large for this calculation.",
+      },
+    },
+  ],
+};
@@ -0,0 +1,55 @@
+import type { ErrorPack } from "../../types";
+
+export const PANCAKESWAP_PACK: ErrorPack = {
+  name: "pancakeswap",
+  description: "PancakeSwap router and pool errors.",
+  sections: [
+    {
+      name: "PancakeSwap Errors",
+      category: "liquidity",
+      entries: {
+        "Pancake: K": "Low liquidity for this pair. Try a smaller swap amount.",
+        "Pancake: INSUFFICIENT_OUTPUT_AMOUNT": {
+          message: "Price moved too much. Increase slippage tolerance.",
+          category: "slippage",
+        },
+        "Pancake: INSUFFICIENT_INPUT_AMOUNT": {
+          message: "Input amount too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "Pancake: INSUFFICIENT_LIQUIDITY":
+          "Not enough liquidity. Try a smaller amount.",
+        "Pancake: EXPIRED": {
+          message: "Quote expired. Please try the swap again.",
+          category: "deadline",
+        },
+        "Pancake: TRANSFER_FAILED": {
+          message: "Token transfer failed. Check your approval.",
+          category: "allowance",
+        },
+        "Pancake: LOCKED": {
+          message: "Pool is currently locked. Try again shortly.",
+          category: "contract-revert",
+        },
+        "PancakeRouter: INSUFFICIENT_OUTPUT_AMOUNT": {
+          message: "Price moved too much. Increase slippage.",
+          category: "slippage",
+        },
+        "PancakeRouter: EXCESSIVE_INPUT_AMOUNT": {
+          message: "Price moved unfavorably. Increase slippage.",
+          category: "slippage",
+        },
+        "PancakeRouter: EXPIRED": {
+          message: "Transaction expired. Please try again.",
+          category: "deadline",
+        },
+        "PancakeLibrary: INSUFFICIENT_AMOUNT": {
+          message: "Amount too small for this operation.",
+          category: "invalid-input",
+        },
+        "PancakeLibrary: INSUFFICIENT_LIQUIDITY":
+          "Not enough liquidity for this trade.",
+      },
+    },
+  ],
+};
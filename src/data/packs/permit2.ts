@@ -0,0 +1,30 @@
+import type { ErrorPack } from "../../types";
+
+export const PERMIT2_PACK: ErrorPack = {
+  name: "permit2",
+  description: "Uniswap Permit2 signature-transfer and allowance errors.",
+  sections: [
+    {
+      name: "Permit2 Errors",
+      category: "allowance",
+      entries: {
+        AllowanceExpired:
+          "Your token approval has expired. Please approve again.",
+        InsufficientAllowance:
+          "You need to approve more tokens before this transaction.",
+        SignatureExpired: {
+          message: "Signature expired. Please sign again.",
+          category: "signature",
+        },
+        InvalidContractSignature: {
+          message: "Smart wallet signature is invalid.",
+          category: "signature",
+        },
+        ExcessiveInvalidation: {
+          message: "Too many approvals invalidated at once.",
+          category: "invalid-input",
+        },
+      },
+    },
+  ],
+};
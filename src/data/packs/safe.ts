@@ -0,0 +1,68 @@
+import type { ErrorPack } from "../../types";
+
+export const SAFE_PACK: ErrorPack = {
+  name: "safe",
+  description: "Safe (Gnosis Safe) multisig errors.",
+  sections: [
+    {
+      name: "Safe (Gnosis) Wallet Errors",
+      category: "signature",
+      entries: {
+        "Safe transaction failed": {
+          message: "Safe transaction execution failed.",
+          category: "contract-revert",
+        },
+        "Signature request rejected": {
+          message: "Safe signature request was rejected.",
+          category: "user-rejected",
+        },
+        "Transaction rejected by Safe": {
+          message: "Transaction was rejected in Safe.",
+          category: "user-rejected",
+        },
+        "Not enough signatures":
+          "More signatures are needed for this Safe transaction.",
+        "Threshold not reached":
+          "Not enough owners have signed this Safe transaction.",
+      },
+    },
+    {
+      name: "Gnosis Safe / Safe Global Errors",
+      category: "contract-revert",
+      entries: {
+        GS000: {
+          message: "Safe initialization failed. Check your setup parameters.",
+          category: "invalid-input",
+        },
+        GS013:
+          "The transaction within your Safe failed. One of the contract calls reverted.",
+        GS025: {
+          message:
+            "Transaction hash not approved. Owners need to sign the same data.",
+          category: "signature",
+        },
+        GS026: {
+          message:
+            "Invalid owner provided. The address is not part of this Safe.",
+          category: "permission",
+        },
+        GS031: "The Safe is locked for this operation. Try again shortly.",
+      },
+    },
+    {
+      name: "Multi-sig / Safe Errors",
+      category: "signature",
+      entries: {
+        "Multisig: insufficient signatures":
+          "Not enough signatures. More signatures required.",
+        "Multisig: duplicate signature": "Duplicate signature detected.",
+        "Multisig: invalid signature": "Invalid signature provided.",
+        "Multisig: threshold not met": "Signature threshold not met.",
+        "Multisig: owner not found": {
+          message: "Owner not found in the multisig wallet.",
+          category: "permission",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,458 @@
+import type { ErrorPack } from "../../types";
+
+export const SOLANA_PACK: ErrorPack = {
+  name: "solana",
+  description: "Phantom and Solana wallet errors, Solana programs and Jupiter.",
+  sections: [
+    {
+      name: "Phantom / Solana Wallet Errors",
+      category: "wallet-connection",
+      entries: {
+        WalletNotConnectedError:
+          "Wallet not connected. Please connect your wallet first.",
+        WalletConnectionError: "Failed to connect wallet. Please try again.",
+        WalletSendTransactionError: {
+          message: "Failed to send transaction. Please try again.",
+          category: "rpc",
+        },
+        WalletSignTransactionError: {
+          message: "You cancelled the transaction signing.",
+          category: "user-rejected",
+        },
+        WalletSignMessageError: {
+          message: "Message signing failed. Please try again.",
+          category: "signature",
+        },
+        WalletNotReadyError:
+          "Wallet not ready. Please ensure it's installed and unlocked.",
+        WalletPublicKeyError: "Could not get wallet address. Please reconnect.",
+        WalletDisconnectionError:
+          "Failed to disconnect wallet. Please try again.",
+        WalletAccountError: "Could not access wallet account.",
+        WalletNotSelectedError:
+          "No wallet selected. Please select a wallet first.",
+        "Phantom - Rejected": {
+          message: "You declined the request in Phantom.",
+          category: "user-rejected",
+        },
+        "Phantom - Unauthorized":
+          "Phantom is not authorized. Please connect first.",
+        "Phantom - Disconnected": "Phantom is disconnected. Please reconnect.",
+        "Phantom wallet not found":
+          "Phantom wallet not detected. Please install Phantom.",
+        "Solflare - Rejected": {
+          message: "You declined the request in Solflare.",
+          category: "user-rejected",
+        },
+        "Backpack - Rejected": {
+          message: "You declined the request in Backpack.",
+          category: "user-rejected",
+        },
+        "Transaction simulation failed": {
+          message: "Transaction simulation failed. Check your inputs.",
+          category: "contract-revert",
+        },
+        "Blockhash not found": {
+          message: "Transaction expired. Please try again.",
+          category: "deadline",
+        },
+        "Transaction was not confirmed": {
+          message:
+            "Transaction wasn't confirmed in time. It may still succeed.",
+          category: "network",
+          retryable: false,
+        },
+        "block height exceeded": {
+          message:
+            "Transaction expired. Please try again with fresh blockhash.",
+          category: "deadline",
+        },
+        "Signature verification failed": {
+          message: "Transaction signature verification failed.",
+          category: "signature",
+        },
+        "Account not found": {
+          message: "Wallet account not found. Please check the address.",
+          category: "invalid-input",
+        },
+        "Insufficient SOL": {
+          message: "Not enough SOL for transaction fees.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "Insufficient lamports": {
+          message: "Not enough SOL balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        "Program failed to complete": {
+          message: "The program execution failed. Please try again.",
+          category: "contract-revert",
+        },
+        "custom program error": {
+          message:
+            "Smart contract returned an error. Please check your inputs.",
+          category: "contract-revert",
+        },
+        AccountNotFound: {
+          message: "The specified account doesn't exist.",
+          category: "invalid-input",
+        },
+        InstructionError: {
+          message: "Transaction instruction failed. Please check your inputs.",
+          category: "contract-revert",
+        },
+        InvalidAccountData: {
+          message: "Invalid account data. Please try again.",
+          category: "invalid-input",
+        },
+      },
+    },
+    {
+      name: "Solana / Jupiter Aggregator Errors",
+      category: "slippage",
+      entries: {
+        "0x1771":
+          "Price moved beyond your slippage limit on Solana. Try increasing it.",
+        "0x1788": {
+          message: "Jupiter route calculation error. Try refreshing the quote.",
+          category: "contract-revert",
+          actions: ["REFRESH_QUOTE"],
+        },
+        "0x1": {
+          message:
+            "Solana program error. Usually indicates insufficient funds or invalid instruction.",
+          category: "insufficient-funds",
+        },
+        "0x1770": {
+          message:
+            "The liquidity pool has changed. Refresh the page for a new quote.",
+          category: "liquidity",
+          actions: ["REFRESH_QUOTE"],
+        },
+        "Slippage tolerance exceeded": {
+          message: "Price changed too fast. Increase your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+        },
+        "Compute budget exceeded": {
+          message:
+            "The transaction is too complex for Solana. Try a simpler route.",
+          category: "gas",
+        },
+        BlockhashNotFound: {
+          message:
+            "Transaction expired. Solana network is busy, please try again.",
+          category: "deadline",
+          actions: ["RETRY"],
+        },
+      },
+    },
+    {
+      name: "Solana Transaction Errors",
+      category: "contract-revert",
+      entries: {
+        InsufficientFundsForFee: {
+          message: "Not enough SOL to pay the network fee.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        InsufficientFundsForRent: {
+          message: "Not enough SOL to keep this account open. Add some SOL.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        InsufficientFunds: {
+          message: "Not enough balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        AccountInUse: {
+          message: "An account in this transaction is busy. Please try again.",
+          category: "network",
+        },
+        AlreadyProcessed: {
+          message: "This transaction was already processed.",
+          retryable: false,
+          severity: "info",
+          actions: [],
+        },
+        ProgramAccountNotFound: {
+          message: "The program for this transaction wasn't found.",
+          category: "invalid-input",
+        },
+        ProgramFailedToComplete:
+          "The program execution failed. Please try again.",
+        ComputationalBudgetExceeded: {
+          message:
+            "The transaction is too complex for Solana. Try a simpler route.",
+          category: "gas",
+        },
+        WouldExceedMaxBlockCostLimit: {
+          message: "The network is congested. Please try again.",
+          category: "network",
+        },
+      },
+    },
+    {
+      // Keyed "<program>: <error>" (see SOLANA_PROGRAMS)
+      name: "Solana Program Errors",
+      category: "contract-revert",
+      entries: {
+        "System: ResultWithNegativeLamports": {
+          message: "Not enough SOL for this transfer.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "System: AccountAlreadyInUse": {
+          message: "This account already exists.",
+          category: "invalid-input",
+        },
+        "SPL Token: InsufficientFunds": {
+          message: "You don't have enough of this token.",
+          category: "insufficient-funds",
+        },
+        "SPL Token: AccountFrozen": {
+          message: "This token account is frozen by the token issuer.",
+          category: "permission",
+        },
+        "SPL Token: OwnerMismatch": {
+          message: "This token account belongs to a different wallet.",
+          category: "permission",
+        },
+        "SPL Token: MintMismatch": {
+          message: "The token account doesn't match this token.",
+          category: "invalid-input",
+        },
+        "SPL Token: InvalidMint": {
+          message: "Invalid token. Please check the token address.",
+          category: "invalid-input",
+        },
+        "SPL Token: UninitializedState": {
+          message: "The token account isn't set up yet.",
+          category: "invalid-input",
+        },
+        "SPL Token: NonNativeHasBalance": {
+          message: "Empty the token account before closing it.",
+          category: "invalid-input",
+        },
+        "SPL Token: MintDecimalsMismatch": {
+          message: "The token amount has the wrong number of decimals.",
+          category: "invalid-input",
+        },
+        "Associated Token Account: InvalidOwner": {
+          message: "The token account address doesn't match your wallet.",
+          category: "invalid-input",
+        },
+        "Jupiter: SlippageToleranceExceeded": {
+          message: "Price changed too fast. Increase your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+          category: "slippage",
+        },
+        "Jupiter: EmptyRoute": {
+          message: "No swap route was found. Try a different amount or token.",
+          category: "liquidity",
+          actions: ["REFRESH_QUOTE"],
+        },
+        "Jupiter: InvalidCalculation": {
+          message: "The swap couldn't be calculated. Try refreshing the quote.",
+          actions: ["REFRESH_QUOTE"],
+        },
+        "Jupiter: InvalidSlippage": {
+          message: "The slippage setting is invalid. Please adjust it.",
+          category: "invalid-input",
+        },
+        "Jupiter: ExactOutAmountNotMatched": {
+          message:
+            "The exact output amount couldn't be met. Try refreshing the quote.",
+          category: "slippage",
+          actions: ["REFRESH_QUOTE"],
+        },
+        "Jupiter: SourceAndDestinationMintCannotBeTheSame": {
+          message: "You can't swap a token for itself.",
+          category: "invalid-input",
+        },
+      },
+    },
+    {
+      // Keyed "Anchor: <error>" (see ANCHOR_ERRORS)
+      name: "Anchor Framework Errors",
+      category: "contract-revert",
+      entries: {
+        "Anchor: ConstraintMut":
+          "An account the program needs to update is read-only.",
+        "Anchor: ConstraintHasOne":
+          "An account doesn't belong to this position or pool. Refresh and try again.",
+        "Anchor: ConstraintSigner": {
+          message:
+            "A required signature is missing. Please sign with the right wallet.",
+          category: "signature",
+        },
+        "Anchor: ConstraintRaw": "A program check failed. Check your inputs.",
+        "Anchor: ConstraintOwner": {
+          message: "An account is owned by the wrong program.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintRentExempt": {
+          message: "An account needs more SOL to stay open. Add some SOL.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "Anchor: ConstraintSeeds": {
+          message: "An account address doesn't match what the program expects.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintExecutable": {
+          message: "An account that should be a program isn't one.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintAssociated": {
+          message: "The token account address doesn't match your wallet.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintAssociatedInit": {
+          message: "Your token account couldn't be created. Please try again.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintClose":
+          "An account couldn't be closed. Please try again.",
+        "Anchor: ConstraintAddress": {
+          message: "An account address doesn't match what the program expects.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintZero": {
+          message: "This account is already in use.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintTokenMint": {
+          message: "The token account holds a different token.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintTokenOwner": {
+          message: "This token account belongs to a different wallet.",
+          category: "permission",
+        },
+        "Anchor: ConstraintMintMintAuthority": {
+          message: "This wallet isn't allowed to mint this token.",
+          category: "permission",
+        },
+        "Anchor: ConstraintMintFreezeAuthority": {
+          message: "This wallet isn't allowed to freeze this token.",
+          category: "permission",
+        },
+        "Anchor: ConstraintMintDecimals": {
+          message: "The token has an unexpected number of decimals.",
+          category: "invalid-input",
+        },
+        "Anchor: ConstraintSpace": {
+          message: "An account has the wrong size for this program.",
+          category: "invalid-input",
+        },
+        "Anchor: RequireViolated": "A program check failed. Check your inputs.",
+        "Anchor: RequireEqViolated":
+          "A program check failed. Check your inputs.",
+        "Anchor: RequireKeysEqViolated": {
+          message: "An account doesn't match what the program expects.",
+          category: "invalid-input",
+        },
+        "Anchor: RequireNeqViolated":
+          "A program check failed. Check your inputs.",
+        "Anchor: RequireKeysNeqViolated": {
+          message: "Two accounts in this transaction must be different.",
+          category: "invalid-input",
+        },
+        "Anchor: RequireGtViolated":
+          "A value is too low for this program. Check your inputs.",
+        "Anchor: RequireGteViolated":
+          "A value is too low for this program. Check your inputs.",
+        "Anchor: AccountDiscriminatorAlreadySet": {
+          message: "This account is already set up.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountDiscriminatorNotFound": {
+          message: "An account isn't set up for this program.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountDiscriminatorMismatch": {
+          message: "An account has the wrong type for this program.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountDidNotDeserialize": {
+          message: "An account's data couldn't be read. Please try again.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountDidNotSerialize":
+          "An account couldn't be updated. Please try again.",
+        "Anchor: AccountNotEnoughKeys": {
+          message:
+            "The transaction is missing accounts. Refresh and try again.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountNotMutable":
+          "An account the program needs to update is read-only.",
+        "Anchor: AccountOwnedByWrongProgram": {
+          message: "An account is owned by the wrong program.",
+          category: "invalid-input",
+        },
+        "Anchor: InvalidProgramId": {
+          message: "The transaction calls the wrong program.",
+          category: "invalid-input",
+        },
+        "Anchor: InvalidProgramExecutable": {
+          message: "An account that should be a program isn't one.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountNotSigner": {
+          message:
+            "A required signature is missing. Please sign with the right wallet.",
+          category: "signature",
+        },
+        "Anchor: AccountNotSystemOwned": {
+          message: "This wallet account can't be used here.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountNotInitialized": {
+          message:
+            "An account isn't set up yet. It may need to be created first.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountNotProgramData": {
+          message: "An account has the wrong type for this program.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountNotAssociatedTokenAccount": {
+          message: "The token account address doesn't match your wallet.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountSysvarMismatch": {
+          message: "The transaction passes the wrong system account.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountReallocExceedsLimit": {
+          message: "An account can't grow that much in one transaction.",
+          category: "invalid-input",
+        },
+        "Anchor: AccountDuplicateReallocs": {
+          message: "The transaction resizes the same account twice.",
+          category: "invalid-input",
+        },
+        "Anchor: DeclaredProgramIdMismatch": {
+          message: "The program is misconfigured. Please contact support.",
+          category: "invalid-input",
+        },
+        "Anchor: TryingToInitPayerAsProgramAccount": {
+          message: "Your wallet can't be used as a program account.",
+          category: "invalid-input",
+        },
+        "Anchor: InvalidNumericConversion": {
+          message: "A number is out of range. Try a smaller amount.",
+          category: "invalid-input",
+          actions: ["REDUCE_AMOUNT"],
+        },
+        "Anchor: Deprecated": {
+          message: "This feature is no longer supported by the program.",
+          category: "invalid-input",
+        },
+      },
+    },
+  ],
+};
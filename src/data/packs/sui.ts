@@ -0,0 +1,129 @@
+import type { ErrorPack } from "../../types";
+
+export const SUI_PACK: ErrorPack = {
+  name: "sui",
+  description: "Sui wallet errors and Move aborts.",
+  sections: [
+    {
+      name: "Sui Wallet Errors",
+      category: "invalid-input",
+      entries: {
+        "WALLET.CONNECT_ERROR": {
+          message: "Failed to connect to Sui wallet. Please try again.",
+          category: "wallet-connection",
+        },
+        "WALLET.DISCONNECT_ERROR": {
+          message: "Failed to disconnect from Sui wallet.",
+          category: "wallet-connection",
+        },
+        "WALLET.SIGN_TX_ERROR": {
+          message: "Transaction signing failed or was rejected.",
+          category: "signature",
+        },
+        "WALLET.SIGN_MSG_ERROR": {
+          message: "Message signing failed. Please try again.",
+          category: "signature",
+        },
+        "WALLET.LISTEN_TO_EVENT_ERROR": {
+          message: "Failed to listen to wallet events.",
+          category: "wallet-connection",
+        },
+        "WALLET.METHOD_NOT_IMPLEMENTED_ERROR": {
+          message: "This method is not supported by your wallet.",
+          category: "wallet-connection",
+        },
+        "WALLET.CONNECT_ERROR__USER_REJECTED": {
+          message: "You declined to connect your Sui wallet.",
+          category: "user-rejected",
+        },
+        "Sui Wallet - Rejected": {
+          message: "You declined the request in Sui Wallet.",
+          category: "user-rejected",
+        },
+        "Suiet - Rejected": {
+          message: "You declined the request in Suiet wallet.",
+          category: "user-rejected",
+        },
+        "Ethos - Rejected": {
+          message: "You declined the request in Ethos wallet.",
+          category: "user-rejected",
+        },
+        "Martian Sui - Rejected": {
+          message: "You declined the request in Martian Sui wallet.",
+          category: "user-rejected",
+        },
+        "Insufficient gas": {
+          message: "Not enough SUI for gas fees.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        InsufficientGas: {
+          message: "Not enough SUI to pay for transaction fees.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        InsufficientCoinBalance: {
+          message: "Insufficient coin balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        ObjectNotFound: "The specified object was not found on chain.",
+        InvalidTxSignature: {
+          message: "Invalid transaction signature.",
+          category: "signature",
+        },
+        MoveAbort: {
+          message: "Smart contract execution failed.",
+          category: "contract-revert",
+        },
+        PackageNotFound: "Package not found. Please check the address.",
+        DynamicFieldNotFound: "Dynamic field not found.",
+        InvalidPublicKey: "Invalid public key provided.",
+        ModuleNotFound:
+          "Contract module not found. Please verify the contract details.",
+        FunctionNotFound:
+          "The requested contract function is not found. Please check your transaction parameters.",
+        GasComputationError: {
+          message:
+            "Unable to calculate gas fees. Please try again or contact support.",
+          category: "gas",
+        },
+        ConsensusError: {
+          message:
+            "Network consensus validation failed. Please try again in a moment.",
+          category: "network",
+        },
+        InvalidObjectOwner:
+          "Invalid object owner. Please check your transaction parameters.",
+        ObjectVersionNotFound:
+          "Object version not found. Please check your transaction parameters.",
+        InvalidObjectType:
+          "Invalid object type. Please check your transaction parameters.",
+        InvalidObjectId:
+          "Invalid object ID. Please check your transaction parameters.",
+      },
+    },
+    {
+      // "<address>::<module>::<error>", see MOVE_ABORT_CODES
+      name: "Sui Framework Aborts",
+      category: "contract-revert",
+      entries: {
+        "0x2::balance::ENotEnough": {
+          message: "Insufficient balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        "0x2::coin::ENotEnough": {
+          message: "Insufficient balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        "0x2::balance::EOverflow": {
+          message: "The amount is too large. Try a smaller amount.",
+          category: "invalid-input",
+        },
+        "0x2::coin::EInvalidArg": {
+          message: "The transaction inputs are invalid. Please check them.",
+          category: "invalid-input",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,25 @@
+import type { ErrorPack } from "../../types";
+
+export const SUSHISWAP_PACK: ErrorPack = {
+  name: "sushiswap",
+  description: "SushiSwap router errors.",
+  sections: [
+    {
+      name: "SushiSwap Errors",
+      category: "liquidity",
+      entries: {
+        "SushiSwap: K": "Low liquidity. Try a smaller swap amount.",
+        "SushiSwap: INSUFFICIENT_OUTPUT_AMOUNT": {
+          message: "Price moved too much. Increase slippage tolerance.",
+          category: "slippage",
+        },
+        "SushiSwap: INSUFFICIENT_LIQUIDITY":
+          "Not enough liquidity for this swap.",
+        "SushiSwap: EXPIRED": {
+          message: "Quote expired. Please try again.",
+          category: "deadline",
+        },
+      },
+    },
+  ],
+};
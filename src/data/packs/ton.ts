@@ -0,0 +1,254 @@
+import type { ErrorPack } from "../../types";
+
+export const TON_PACK: ErrorPack = {
+  name: "ton",
+  description: "TON and TonConnect errors, and TON exit codes.",
+  sections: [
+    {
+      name: "TON / TonConnect Errors",
+      category: "wallet-connection",
+      entries: {
+        USER_REJECTS_ERROR: {
+          message: "You declined the request in your TON wallet.",
+          category: "user-rejected",
+        },
+        UNKNOWN_APP_ERROR: "Unknown app error. Please reconnect your wallet.",
+        BAD_REQUEST_ERROR: {
+          message: "Invalid request. Please try again.",
+          category: "invalid-input",
+        },
+        UNKNOWN_ERROR: {
+          message: "An unknown error occurred in your TON wallet.",
+          category: "unknown",
+        },
+        METHOD_NOT_SUPPORTED:
+          "This method is not supported by your TON wallet.",
+        TON_CONNECT_ERROR: "TON Connect error. Please reconnect your wallet.",
+        "Tonkeeper - Rejected": {
+          message: "You declined the request in Tonkeeper.",
+          category: "user-rejected",
+        },
+        "Tonkeeper - Cancelled": {
+          message: "You cancelled the request in Tonkeeper.",
+          category: "user-rejected",
+        },
+        "OpenMask - Rejected": {
+          message: "You declined the request in OpenMask.",
+          category: "user-rejected",
+        },
+        "MyTonWallet - Rejected": {
+          message: "You declined the request in MyTonWallet.",
+          category: "user-rejected",
+        },
+        "TonConnect: Connection was closed":
+          "Wallet connection was closed. Please reconnect.",
+        "TonConnect: Bridge connection error":
+          "Connection error. Please try reconnecting your TON wallet.",
+        "TonConnect: Session not found":
+          "Session expired. Please reconnect your TON wallet.",
+        "Unable to verify source":
+          "Unable to verify wallet source. Please reconnect.",
+        "Wallet is not connected":
+          "TON wallet not connected. Please connect first.",
+        "Invalid BOC": {
+          message: "Invalid transaction data. Please try again.",
+          category: "invalid-input",
+        },
+        "Not enough TON": {
+          message: "Not enough TON for this transaction.",
+          category: "insufficient-funds",
+        },
+        "Not enough balance": {
+          message: "Insufficient balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        "Cell underflow": {
+          message:
+            "Transaction data mismatch (cellUnderflow). Please check your parameters and try again.",
+          category: "invalid-input",
+        },
+        "Cell overflow": {
+          message:
+            "Transaction data is too large (cellOverflow). Please check your parameters and try again.",
+          category: "invalid-input",
+        },
+        "Invalid seqno": {
+          message:
+            "Transaction sequence number is incorrect. Please try again.",
+          category: "nonce",
+        },
+        "Bounced transaction": {
+          message:
+            "Transaction was rejected and bounced back. Please check your transaction parameters.",
+          category: "contract-revert",
+        },
+        "Invalid fees": {
+          message:
+            "Transaction fees are insufficient. Please increase the fee amount and try again.",
+          category: "gas",
+        },
+      },
+    },
+    {
+      // "TON: <name>", see TON_EXIT_CODES
+      name: "TON Compute Phase Exit Codes",
+      category: "contract-revert",
+      entries: {
+        "TON: StackUnderflow":
+          "The contract failed while processing this transaction.",
+        "TON: StackOverflow":
+          "The contract failed while processing this transaction.",
+        "TON: IntegerOverflow": {
+          message:
+            "A value is too large for the contract. Try a smaller amount.",
+          category: "invalid-input",
+        },
+        "TON: IntegerOutOfRange": {
+          message: "A value is out of the allowed range. Please check it.",
+          category: "invalid-input",
+        },
+        "TON: InvalidOpcode":
+          "The contract failed while processing this transaction.",
+        "TON: TypeCheckError": {
+          message:
+            "The transaction data doesn't match what the contract expects.",
+          category: "invalid-input",
+        },
+        "TON: CellOverflow": {
+          message:
+            "Transaction data is too large (cellOverflow). Please check your parameters and try again.",
+          category: "invalid-input",
+        },
+        "TON: CellUnderflow": {
+          message:
+            "Transaction data mismatch (cellUnderflow). Please check your parameters and try again.",
+          category: "invalid-input",
+        },
+        "TON: DictionaryError":
+          "The contract failed while processing this transaction.",
+        "TON: UnknownError":
+          "The contract failed while processing this transaction.",
+        "TON: FatalError":
+          "The contract failed while processing this transaction.",
+        "TON: VirtualizationError":
+          "The contract failed while processing this transaction.",
+        "TON: OutOfGas": {
+          message:
+            "The transaction ran out of gas. Attach more TON and try again.",
+          category: "gas",
+        },
+        "TON: NullReference":
+          "The contract failed while processing this transaction.",
+        "TON: InvalidSerializationPrefix": {
+          message: "The contract doesn't recognize this request.",
+          category: "invalid-input",
+        },
+        "TON: InvalidIncomingMessage": {
+          message: "The contract doesn't recognize this request.",
+          category: "invalid-input",
+        },
+        "TON: ConstraintsError": {
+          message: "The contract rejected the inputs. Please check them.",
+          category: "invalid-input",
+        },
+        "TON: AccessDenied": {
+          message: "You don't have permission to do this.",
+          category: "permission",
+        },
+        "TON: ContractStopped": {
+          message:
+            "This contract is currently stopped. Please try again later.",
+          severity: "warning",
+        },
+        "TON: InvalidArgument": {
+          message: "The transaction inputs are invalid. Please check them.",
+          category: "invalid-input",
+        },
+        "TON: ContractCodeNotFound":
+          "The contract couldn't be found. Please check the address.",
+        "TON: InvalidStandardAddress": {
+          message: "Invalid address. Please check it and try again.",
+          category: "invalid-input",
+        },
+        "TON: MasterchainNotEnabled": {
+          message: "This contract doesn't accept masterchain addresses.",
+          category: "invalid-input",
+        },
+        // Jetton wallets
+        "TON: NotEnoughJettons": {
+          message: "Not enough tokens for this transfer.",
+          category: "insufficient-funds",
+        },
+        "TON: NotEnoughGas": {
+          message: "Not enough TON attached to cover fees. Attach more TON.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "TON: NotJettonOwner": {
+          message: "Only the token owner can do this.",
+          category: "permission",
+        },
+        "TON: NotJettonWallet":
+          "The token transfer came from an unexpected wallet.",
+        // Skipped compute phase
+        "TON: ContractNotDeployed": {
+          message: "No contract is deployed at this address yet.",
+          category: "invalid-input",
+        },
+        "TON: BadContractState":
+          "The contract's state doesn't match. Please try again.",
+        "TON: NoGas": {
+          message: "Not enough TON to pay for this transaction.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+      },
+    },
+    {
+      // "TON: <name>", see TON_ACTION_RESULT_CODES
+      name: "TON Action Phase Result Codes",
+      category: "contract-revert",
+      entries: {
+        "TON: InvalidActionList":
+          "The contract couldn't complete its actions. Please try again.",
+        "TON: ActionListTooLong":
+          "The contract tried to do too much in one transaction.",
+        "TON: UnsupportedAction":
+          "The contract couldn't complete its actions. Please try again.",
+        "TON: InvalidSourceAddress": {
+          message: "Invalid sender address in the transaction.",
+          category: "invalid-input",
+        },
+        "TON: InvalidDestinationAddress": {
+          message: "Invalid destination address. Please check it.",
+          category: "invalid-input",
+        },
+        "TON: NotEnoughTon": {
+          message: "Not enough TON for this transaction.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "TON: NotEnoughExtraCurrencies": {
+          message: "Not enough balance for this transaction.",
+          category: "insufficient-funds",
+        },
+        "TON: MessageDoesNotFit":
+          "The contract's outgoing message is too large.",
+        "TON: CannotProcessMessage": {
+          message:
+            "The contract couldn't send its message. Attach more TON and try again.",
+          category: "insufficient-funds",
+          actions: ["ADD_NATIVE_FUNDS"],
+        },
+        "TON: NullLibraryReference":
+          "The contract failed while processing this transaction.",
+        "TON: LibraryChangeError":
+          "The contract failed while processing this transaction.",
+        "TON: LibraryLimitExceeded":
+          "The contract failed while processing this transaction.",
+        "TON: AccountStateTooLarge":
+          "The contract's storage is full. Please contact the app.",
+      },
+    },
+  ],
+};
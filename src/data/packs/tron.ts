@@ -0,0 +1,78 @@
+import type { ErrorPack } from "../../types";
+
+export const TRON_PACK: ErrorPack = {
+  name: "tron",
+  description: "Tron and TronLink errors.",
+  sections: [
+    {
+      name: "Tron / TronLink Errors",
+      category: "contract-revert",
+      entries: {
+        "TronLink - Rejected": {
+          message: "You declined the request in TronLink.",
+          category: "user-rejected",
+        },
+        "TronLink - Cancelled": {
+          message: "You cancelled the request in TronLink.",
+          category: "user-rejected",
+        },
+        "TronLink not installed": {
+          message: "Please install TronLink wallet extension.",
+          category: "wallet-connection",
+        },
+        "TronLink is locked": {
+          message: "TronLink is locked. Please unlock it first.",
+          category: "wallet-locked",
+        },
+        "TronLink not ready": {
+          message: "TronLink is not ready. Please wait and try again.",
+          category: "wallet-connection",
+        },
+        "Confirmation declined by user": {
+          message: "You declined the transaction in TronLink.",
+          category: "user-rejected",
+        },
+        BANDWITH: {
+          message:
+            "Not enough bandwidth for this transaction. Please freeze TRX.",
+          category: "gas",
+        },
+        BANDWIDTH: {
+          message: "Not enough bandwidth. Please freeze TRX for bandwidth.",
+          category: "gas",
+        },
+        ENERGY: {
+          message:
+            "Not enough energy for this transaction. Please freeze TRX for energy.",
+          category: "gas",
+        },
+        BALANCE_NOT_SUFFICIENT: {
+          message: "Insufficient TRX balance.",
+          category: "insufficient-funds",
+        },
+        CONTRACT_VALIDATE_ERROR: {
+          message: "Contract validation failed. Please check your inputs.",
+          category: "invalid-input",
+        },
+        REVERT: "Transaction reverted. Please check your inputs.",
+        OUT_OF_ENERGY: {
+          message:
+            "Out of energy. Please freeze TRX or reduce transaction complexity.",
+          category: "gas",
+        },
+        "Account resource insufficient": {
+          message: "Not enough bandwidth or energy. Please freeze TRX.",
+          category: "gas",
+        },
+        "Contract not found": {
+          message: "Smart contract not found. Please check the address.",
+          category: "invalid-input",
+        },
+        "FoxWallet - Rejected": {
+          message: "You declined the request in FoxWallet.",
+          category: "user-rejected",
+        },
+      },
+    },
+  ],
+};
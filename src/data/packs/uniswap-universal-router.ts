@@ -0,0 +1,55 @@
+import type { ErrorPack } from "../../types";
+
+export const UNISWAP_UNIVERSAL_ROUTER_PACK: ErrorPack = {
+  name: "uniswap-universal-router",
+  description: "Uniswap Universal Router errors.",
+  sections: [
+    {
+      name: "Uniswap Universal Router Errors",
+      category: "slippage",
+      entries: {
+        V2TooLittleReceived: {
+          message:
+            "Price moved too much. Try increasing your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+        },
+        V2TooMuchRequested:
+          "Price moved unfavorably. Try increasing your slippage tolerance.",
+        V3TooLittleReceived: {
+          message:
+            "Price moved too much. Try increasing your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+        },
+        V3TooMuchRequested:
+          "Price moved unfavorably. Try increasing your slippage tolerance.",
+        V2InvalidPath: {
+          message: "Invalid swap path. Please try again.",
+          category: "invalid-input",
+        },
+        V3InvalidSwap: {
+          message: "Invalid swap route. Try refreshing the quote.",
+          category: "invalid-input",
+        },
+        TransactionDeadlinePassed: {
+          message: "The deadline for this transaction has passed.",
+          category: "deadline",
+        },
+        ExecutionFailed: {
+          message: "One of the swap steps failed. Try refreshing the quote.",
+          category: "contract-revert",
+        },
+        InsufficientETH: {
+          message: "Not enough ETH was sent for this swap.",
+          category: "insufficient-funds",
+        },
+        InsufficientToken: "Not enough tokens were received for this swap.",
+        ETHNotAccepted: {
+          message: "This swap does not accept ETH. Try wrapping it first.",
+          category: "invalid-input",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,77 @@
+import type { ErrorPack } from "../../types";
+
+export const UNISWAP_V2_PACK: ErrorPack = {
+  name: "uniswap-v2",
+  description: "Uniswap V2 pair and router errors.",
+  sections: [
+    {
+      name: "Uniswap V2 Errors",
+      category: "liquidity",
+      entries: {
+        "UniswapV2: K":
+          "Low liquidity for this pair. Try a smaller swap amount.",
+        "UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT": {
+          message: "Price moved too much. Increase your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+          category: "slippage",
+        },
+        "UniswapV2: INSUFFICIENT_INPUT_AMOUNT": {
+          message: "Input amount is too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "UniswapV2: INSUFFICIENT_LIQUIDITY": {
+          message: "Not enough liquidity for this swap. Try a smaller amount.",
+          template:
+            "Not enough {fromToken}/{toToken} liquidity for this swap. Try a smaller amount.",
+        },
+        "UniswapV2: INSUFFICIENT_LIQUIDITY_BURNED":
+          "Not enough liquidity to remove. Try a smaller amount.",
+        "UniswapV2: INSUFFICIENT_LIQUIDITY_MINTED":
+          "Insufficient liquidity to add. Try different amounts.",
+        "UniswapV2: EXPIRED": {
+          message: "Quote expired. Please try the swap again.",
+          category: "deadline",
+        },
+        "UniswapV2: INVALID_TO": {
+          message: "Invalid recipient address for this swap.",
+          category: "invalid-input",
+        },
+        "UniswapV2: OVERFLOW": {
+          message: "Amount too large. Try a smaller swap.",
+          category: "invalid-input",
+        },
+        "UniswapV2: LOCKED": {
+          message: "This pair is currently locked. Try again shortly.",
+          category: "contract-revert",
+        },
+        "UniswapV2Router: INSUFFICIENT_OUTPUT_AMOUNT": {
+          message: "Price moved too much. Increase slippage tolerance.",
+          category: "slippage",
+        },
+        "UniswapV2Router: EXCESSIVE_INPUT_AMOUNT": {
+          message: "Price moved unfavorably. Increase slippage tolerance.",
+          category: "slippage",
+        },
+        "UniswapV2Router: EXPIRED": {
+          message: "Transaction expired. Please try again.",
+          category: "deadline",
+        },
+        "UniswapV2Library: INSUFFICIENT_AMOUNT": {
+          message: "Amount too small for this operation.",
+          category: "invalid-input",
+        },
+        "UniswapV2Library: INSUFFICIENT_LIQUIDITY":
+          "Not enough liquidity for this trade.",
+        "UniswapV2Library: INSUFFICIENT_INPUT_AMOUNT": {
+          message: "Input amount too small. Try a larger amount.",
+          category: "invalid-input",
+        },
+        "UniswapV2Library: INSUFFICIENT_OUTPUT_AMOUNT": {
+          message: "Price moved too much. Increase slippage.",
+          category: "slippage",
+        },
+      },
+    },
+  ],
+};
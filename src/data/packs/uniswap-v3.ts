@@ -0,0 +1,52 @@
+import type { ErrorPack } from "../../types";
+
+export const UNISWAP_V3_PACK: ErrorPack = {
+  name: "uniswap-v3",
+  description: "Uniswap V3 pool and router errors.",
+  sections: [
+    {
+      name: "Uniswap V3 Errors",
+      category: "invalid-input",
+      entries: {
+        "UniswapV3: SPL": {
+          message: "Price limit reached. Try a different price range.",
+          category: "slippage",
+        },
+        "UniswapV3: LOK": {
+          message: "Pool is locked. Try again in a moment.",
+          category: "contract-revert",
+        },
+        "UniswapV3: TLU": "Tick spacing error. Try a different price range.",
+        "UniswapV3: TLM": "Tick limit reached. Adjust your price range.",
+        "UniswapV3: TUM": "Tick upper limit reached.",
+        "UniswapV3: AI": "Amount insufficient. Try a larger amount.",
+        "UniswapV3: M0": {
+          message: "Not enough token0 liquidity.",
+          category: "liquidity",
+        },
+        "UniswapV3: M1": {
+          message: "Not enough token1 liquidity.",
+          category: "liquidity",
+        },
+        "UniswapV3: AS": "Amount specified is zero.",
+        "UniswapV3: IIA": "Invalid amount specified.",
+        "UniswapV3: L": {
+          message: "Liquidity error. Try different parameters.",
+          category: "liquidity",
+        },
+        "UniswapV3: F0": {
+          message: "Flash loan callback failed for token0.",
+          category: "contract-revert",
+        },
+        "UniswapV3: F1": {
+          message: "Flash loan callback failed for token1.",
+          category: "contract-revert",
+        },
+        Old: {
+          message: "Quote expired. Please refresh and try again.",
+          category: "deadline",
+        },
+      },
+    },
+  ],
+};
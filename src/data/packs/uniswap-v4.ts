@@ -0,0 +1,91 @@
+import type { ErrorPack } from "../../types";
+
+export const UNISWAP_V4_PACK: ErrorPack = {
+  name: "uniswap-v4",
+  description: "Uniswap V4 PoolManager and hook errors.",
+  sections: [
+    {
+      name: "Uniswap V4 / Hook Errors",
+      category: "contract-revert",
+      entries: {
+        "UniswapV4: LOK":
+          "The pool is locked. A hook might be preventing re-entry.",
+        "UniswapV4: TLU": {
+          message:
+            "Price range error. The lower limit is higher than the upper limit.",
+          category: "invalid-input",
+        },
+        "UniswapV4: SPL": {
+          message:
+            "Price limit reached. The trade would move the price too far.",
+          category: "slippage",
+        },
+        "UniswapV4: IIA": {
+          message:
+            "Insufficient input amount. The swap didn't send enough tokens to the pool.",
+          category: "invalid-input",
+        },
+        "UniswapV4: AS": {
+          message: "The trade amount cannot be zero.",
+          category: "invalid-input",
+        },
+        "UniswapV4: M0": {
+          message: "The pool doesn't have enough of the first token (Token0).",
+          category: "liquidity",
+        },
+        "UniswapV4: M1": {
+          message: "The pool doesn't have enough of the second token (Token1).",
+          category: "liquidity",
+        },
+        HookReverted:
+          "A custom logic 'hook' attached to this pool failed. Try a different route.",
+        PoolNotInitialized: {
+          message: "This pool hasn't been created yet. Try a different pair.",
+          category: "liquidity",
+        },
+        PoolAlreadyInitialized: {
+          message: "This pool already exists.",
+          category: "invalid-input",
+        },
+        CurrencyNotSettled:
+          "The swap didn't settle all token balances. Try a different route.",
+        ManagerLocked: "The pool manager is locked. Try again in a moment.",
+        SwapAmountCannotBeZero: {
+          message: "The trade amount cannot be zero.",
+          category: "invalid-input",
+        },
+        PriceLimitAlreadyExceeded: {
+          message:
+            "Price limit reached. The trade would move the price too far.",
+          category: "slippage",
+        },
+        PriceLimitOutOfBounds: {
+          message: "Price limit is out of range for this pool.",
+          category: "invalid-input",
+        },
+        InvalidHookResponse:
+          "A custom logic 'hook' attached to this pool returned an invalid result.",
+        WrappedError:
+          "A custom logic 'hook' or token call failed. Try a different route.",
+        V4TooLittleReceived: {
+          message:
+            "Price moved too much. Try increasing your slippage tolerance.",
+          template:
+            "Price moved more than your {slippage} slippage tolerance. Try increasing it.",
+          category: "slippage",
+        },
+        V4TooMuchRequested: {
+          message:
+            "Price moved unfavorably. Try increasing your slippage tolerance.",
+          category: "slippage",
+        },
+        DeadlinePassed: {
+          message: "The deadline for this transaction has passed.",
+          category: "deadline",
+        },
+        FeeTooHigh:
+          "The dynamic fee set by the pool's hook is too high for this trade.",
+      },
+    },
+  ],
+};
@@ -0,0 +1,64 @@
+import type { ErrorPack } from "../../types";
+
+export const WALLETCONNECT_PACK: ErrorPack = {
+  name: "walletconnect",
+  description: "WalletConnect / Reown and AppKit errors.",
+  sections: [
+    {
+      name: "WalletConnect / Reown Errors",
+      category: "wallet-connection",
+      entries: {
+        "Session expired":
+          "Your session expired. Please reconnect your wallet.",
+        "Session disconnected": "Wallet disconnected. Please reconnect.",
+        "WalletConnect: User rejected": {
+          message: "You declined the request in your wallet.",
+          category: "user-rejected",
+        },
+        "No matching key": "Session not found. Please reconnect your wallet.",
+        "Pairing expired": "Connection expired. Please scan the QR code again.",
+        "Topic is not a pairing topic":
+          "Invalid wallet connection. Please reconnect.",
+        "Missing or invalid": "Connection error. Please try reconnecting.",
+        "Relay connection failed":
+          "Connection to wallet relay failed. Try again.",
+      },
+    },
+    {
+      name: "Reown AppKit Error Codes",
+      category: "invalid-input",
+      entries: {
+        APKT001: {
+          message:
+            "Network not recognized. Please check your network configuration.",
+          category: "chain-mismatch",
+        },
+        APKT002: "Domain not allowed. Please verify your domain settings.",
+        APKT003: {
+          message:
+            "Wallet failed to load. Check your connection and try again.",
+          category: "wallet-connection",
+        },
+        APKT004: {
+          message: "Wallet timed out. Please try again.",
+          category: "wallet-connection",
+        },
+        APKT005: "Domain not verified. Please verify your domain.",
+        APKT006: {
+          message: "Session expired. Please reconnect your wallet.",
+          category: "wallet-connection",
+        },
+        APKT007: "Invalid project configuration. Please check your setup.",
+        APKT008: "Project ID missing. Please configure your project ID.",
+        APKT009: {
+          message: "Server error. Please try again later.",
+          category: "rpc",
+        },
+        APKT010: {
+          message: "Rate limited. Please wait a moment and try again.",
+          category: "rate-limit",
+        },
+      },
+    },
+  ],
+};
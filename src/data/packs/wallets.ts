@@ -0,0 +1,83 @@
+import type { ErrorPack } from "../../types";
+
+export const WALLETS_PACK: ErrorPack = {
+  name: "wallets",
+  description:
+    "Coinbase, Trust, Rainbow, Rabby, Argent, Frame, Zerion and Wallet Standard errors.",
+  sections: [
+    {
+      name: "Coinbase Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Coinbase Wallet - Rejected":
+          "You declined the request in Coinbase Wallet.",
+        "User denied request signature": "You declined the signature request.",
+        "QR Code Modal closed": "QR code scanning was cancelled.",
+      },
+    },
+    {
+      name: "Trust Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Trust Wallet - Rejected": "You declined the request in Trust Wallet.",
+        "Trust: User cancelled": "You cancelled the request in Trust Wallet.",
+      },
+    },
+    {
+      name: "Rainbow Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Rainbow - Rejected": "You declined the request in Rainbow.",
+      },
+    },
+    {
+      name: "Rabby Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Rabby - Rejected": "You declined the request in Rabby.",
+        "Rabby: User rejected": "You declined the request in Rabby wallet.",
+      },
+    },
+    {
+      name: "Argent Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Argent - Rejected": "You declined the request in Argent.",
+        "Guardian signature required": {
+          message: "Your Argent guardian needs to approve this.",
+          category: "signature",
+        },
+      },
+    },
+    {
+      name: "Frame Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Frame - Rejected": "You declined the request in Frame.",
+      },
+    },
+    {
+      name: "Zerion Wallet Errors",
+      category: "user-rejected",
+      entries: {
+        "Zerion - Rejected": "You declined the request in Zerion.",
+      },
+    },
+    {
+      name: "Wallet Standard Errors",
+      category: "wallet-connection",
+      entries: {
+        "Wallet not installed": "Please install a compatible wallet.",
+        "Wallet not found": "Wallet not detected. Please install one.",
+        "Wallet not connected": "Wallet not connected. Please connect first.",
+        "No accounts found": "No accounts found in your wallet.",
+        "Account changed": "Your wallet account changed. Please verify.",
+        "Chain changed": {
+          message: "Your wallet network changed.",
+          category: "chain-mismatch",
+        },
+        "Wallet disconnected": "Wallet was disconnected. Please reconnect.",
+      },
+    },
+  ],
+};
@@ -0,0 +1,126 @@
+import type { ErrorPack } from "../../types";
+
+/**
+ * Keyed by web3.js' constant names (`ERR_TX_SIGNING`), since its numeric
+ * codes (100-1200) clash with other ecosystems. Numeric codes are mapped
+ * to these names during extraction.
+ */
+export const WEB3JS_PACK: ErrorPack = {
+  name: "web3js",
+  description: "web3.js v4 error codes.",
+  sections: [
+    {
+      name: "web3.js Contract & Transaction Errors",
+      category: "contract-revert",
+      entries: {
+        ERR_CONTRACT_EXECUTION_REVERTED:
+          "The contract rejected this call. Check your inputs and try again.",
+        ERR_TX: "The transaction failed. Please try again.",
+        ERR_TX_REVERT_INSTRUCTION:
+          "The transaction was reverted by the contract. Check your inputs.",
+        ERR_TX_REVERT_TRANSACTION:
+          "The transaction was reverted by the contract. Check your inputs.",
+        ERR_TX_REVERT_WITHOUT_REASON:
+          "The transaction was reverted without a reason. Check your inputs.",
+        ERR_TX_REVERT_TRANSACTION_CUSTOM_ERROR:
+          "The contract rejected this transaction. Check your inputs.",
+        ERR_ABI_ENCODING: {
+          message: "The transaction inputs are invalid. Please check them.",
+          category: "invalid-input",
+        },
+        ERR_TX_OUT_OF_GAS: {
+          message:
+            "The transaction ran out of gas. Try again with a higher gas limit.",
+          category: "gas",
+        },
+        ERR_TX_MISSING_GAS: {
+          message: "The transaction is missing a gas limit or gas price.",
+          category: "gas",
+        },
+        ERR_TX_UNABLE_TO_POPULATE_NONCE: {
+          message: "Couldn't prepare the transaction. Please try again.",
+          category: "nonce",
+        },
+        ERR_TX_CHAIN_ID_MISMATCH: {
+          message: "Wrong network. Please switch networks and try again.",
+          category: "chain-mismatch",
+        },
+        ERR_TX_CHAIN_MISMATCH: {
+          message: "Wrong network. Please switch networks and try again.",
+          category: "chain-mismatch",
+        },
+        ERR_CORE_CHAIN_MISMATCH: {
+          message: "Wrong network. Please switch networks and try again.",
+          category: "chain-mismatch",
+        },
+        ERR_TX_SIGNING: {
+          message: "The transaction couldn't be signed. Please try again.",
+          category: "signature",
+        },
+        ERR_SIGNATURE_FAILED: {
+          message: "Signing failed. Please try again.",
+          category: "signature",
+        },
+        ERR_TX_LOCAL_WALLET_NOT_AVAILABLE: {
+          message:
+            "No wallet is available to sign. Please connect your wallet.",
+          category: "wallet-connection",
+        },
+      },
+    },
+    {
+      name: "web3.js Connection & Provider Errors",
+      category: "network",
+      entries: {
+        ERR_RESPONSE: {
+          message: "The network returned an error. Please try again.",
+          category: "rpc",
+        },
+        ERR_INVALID_RESPONSE: {
+          message:
+            "The network returned an invalid response. Please try again.",
+          category: "rpc",
+        },
+        ERR_OPERATION_TIMEOUT: "The request timed out. Please try again.",
+        ERR_OPERATION_ABORT: {
+          message: "The request was cancelled.",
+          category: "rpc",
+        },
+        ERR_TX_POLLING_TIMEOUT: {
+          message:
+            "The transaction is taking longer than usual to confirm. Check its status before retrying.",
+          retryable: false,
+          severity: "warning",
+        },
+        ERR_TX_SEND_TIMEOUT: {
+          message:
+            "Sending the transaction timed out. Check its status before retrying.",
+          retryable: false,
+          severity: "warning",
+        },
+        ERR_TX_BLOCK_TIMEOUT: {
+          message:
+            "The transaction wasn't confirmed in time. Check its status before retrying.",
+          retryable: false,
+          severity: "warning",
+        },
+        ERR_TX_NOT_FOUND:
+          "The transaction wasn't found. It may have been dropped; please try again.",
+        ERR_CONN: "Connection to the network failed. Please try again.",
+        ERR_CONN_TIMEOUT: "Connection timed out. Please try again.",
+        ERR_CONN_NOT_OPEN: "The network connection isn't open. Please retry.",
+        ERR_CONN_CLOSE: "The network connection closed. Please try again.",
+        ERR_CONN_MAX_ATTEMPTS:
+          "Couldn't reconnect to the network. Check your connection.",
+        ERR_PROVIDER: {
+          message: "The wallet provider failed. Please reconnect your wallet.",
+          category: "wallet-connection",
+        },
+        ERR_INVALID_PROVIDER: {
+          message: "No valid wallet provider found. Please connect a wallet.",
+          category: "wallet-connection",
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,82 @@
+import type { SolanaProgram } from "../types";
+
+const SPL_TOKEN_ERRORS: Record<number, string> = {
+  0: "NotRentExempt",
+  1: "InsufficientFunds",
+  2: "InvalidMint",
+  3: "MintMismatch",
+  4: "OwnerMismatch",
+  5: "FixedSupply",
+  6: "AlreadyInUse",
+  7: "InvalidNumberOfProvidedSigners",
+  8: "InvalidNumberOfRequiredSigners",
+  9: "UninitializedState",
+  10: "NativeNotSupported",
+  11: "NonNativeHasBalance",
+  12: "InvalidInstruction",
+  13: "InvalidState",
+  14: "Overflow",
+  15: "AuthorityTypeNotSupported",
+  16: "MintCannotFreeze",
+  17: "AccountFrozen",
+  18: "MintDecimalsMismatch",
+  19: "NonNativeNotSupported",
+};
+
+/**
+ * Well-known Solana programs, keyed by program ID. A failure in one of
+ * them is matched as `"<name>: <error>"` (e.g. "Jupiter: SlippageToleranceExceeded").
+ */
+export const SOLANA_PROGRAMS: Record<string, SolanaProgram> = {
+  "11111111111111111111111111111111": {
+    name: "System",
+    errors: {
+      0: "AccountAlreadyInUse",
+      1: "ResultWithNegativeLamports",
+      2: "InvalidProgramId",
+      3: "InvalidAccountDataLength",
+      4: "MaxSeedLengthExceeded",
+      5: "AddressWithSeedMismatch",
+      6: "NonceNoRecentBlockhashes",
+      7: "NonceBlockhashNotExpired",
+      8: "NonceUnexpectedBlockhashValue",
+    },
+  },
+  // Token-2022 shares the SPL Token error codes
+  TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: {
+    name: "SPL Token",
+    errors: SPL_TOKEN_ERRORS,
+  },
+  TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: {
+    name: "SPL Token",
+    errors: SPL_TOKEN_ERRORS,
+  },
+  ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL: {
+    name: "Associated Token Account",
+    errors: { 0: "InvalidOwner" },
+  },
+  JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4: {
+    name: "Jupiter",
+    errors: {
+      6000: "EmptyRoute",
+      6001: "SlippageToleranceExceeded",
+      6002: "InvalidCalculation",
+      6003: "MissingPlatformFeeAccount",
+      6004: "InvalidSlippage",
+      6005: "NotEnoughPercent",
+      6006: "InvalidInputIndex",
+      6007: "InvalidOutputIndex",
+      6008: "NotEnoughAccountKeys",
+      6009: "NonZeroMinimumOutAmountNotSupported",
+      6010: "InvalidRoutePlan",
+      6011: "InvalidReferralAuthority",
+      6012: "LedgerTokenAccountDoesNotMatch",
+      6013: "InvalidTokenLedger",
+      6014: "IncorrectTokenProgramID",
+      6015: "TokenProgramNotProvided",
+      6016: "SwapNotSupported",
+      6017: "ExactOutAmountNotMatched",
+      6018: "SourceAndDestinationMintCannotBeTheSame",
+    },
+  },
+};
@@ -0,0 +1,61 @@
+/**
+ * TON compute phase exit codes: TVM's (0-255, 0 and 1 are success),
+ * Tact's (128-137) and the standard Jetton wallets' `throw` codes.
+ * Other codes are contract-specific and matched as "TON exit code <code>".
+ */
+export const TON_EXIT_CODES: Record<number, string> = {
+  // TVM
+  2: "StackUnderflow",
+  3: "StackOverflow",
+  4: "IntegerOverflow",
+  5: "IntegerOutOfRange",
+  6: "InvalidOpcode",
+  7: "TypeCheckError",
+  8: "CellOverflow",
+  9: "CellUnderflow",
+  10: "DictionaryError",
+  11: "UnknownError",
+  12: "FatalError",
+  13: "OutOfGas",
+  [-14]: "OutOfGas",
+  14: "VirtualizationError",
+  // Tact
+  128: "NullReference",
+  129: "InvalidSerializationPrefix",
+  130: "InvalidIncomingMessage",
+  131: "ConstraintsError",
+  132: "AccessDenied",
+  133: "ContractStopped",
+  134: "InvalidArgument",
+  135: "ContractCodeNotFound",
+  136: "InvalidStandardAddress",
+  137: "MasterchainNotEnabled",
+  // Jetton wallets: stablecoin/Jetton 2.0 contracts, then the reference
+  // implementation
+  47: "NotEnoughJettons",
+  48: "NotEnoughGas",
+  73: "NotJettonOwner",
+  74: "NotJettonWallet",
+  705: "NotJettonOwner",
+  706: "NotEnoughJettons",
+  709: "NotEnoughGas",
+};
+
+/**
+ * TON action phase result codes
+ */
+export const TON_ACTION_RESULT_CODES: Record<number, string> = {
+  32: "InvalidActionList",
+  33: "ActionListTooLong",
+  34: "UnsupportedAction",
+  35: "InvalidSourceAddress",
+  36: "InvalidDestinationAddress",
+  37: "NotEnoughTon",
+  38: "NotEnoughExtraCurrencies",
+  39: "MessageDoesNotFit",
+  40: "CannotProcessMessage",
+  41: "NullLibraryReference",
+  42: "LibraryChangeError",
+  43: "LibraryLimitExceeded",
+  50: "AccountStateTooLarge",
+};
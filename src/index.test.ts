@@ -1,16 +1,37 @@
+import {
+  ContractFunctionRevertedError,
+  NonceTooHighError,
+  NonceTooLowError,
+  encodeErrorResult,
+  parseAbi,
+  toFunctionSelector,
+} from "viem";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  ERROR_CATEGORIES,
+  ERROR_PACKS,
+  ERROR_PACK_NAMES,
+  ERROR_SECTIONS,
+  type ErrorPack,
   type HumanizerConfig,
   LOCAL_ERROR_MAP,
   type SwapContext,
   Web3ErrorHumanizer,
   getLocalErrorCount,
+  getLocalMatchCandidates,
   getLocalPatterns,
   hasLocalPattern,
   humanizeError,
   humanizeErrorDetailed,
   humanizeErrorLocal,
+  lookupErrorSelector,
+  registerErrorSignatures,
+  registerLocale,
+  registerMoveAbortCodes,
 } from "./index";
+import { buildAutomaton, findFirstPattern } from "./utils/aho-corasick";
+import { DEFAULT_ERROR_INDEX, matchLocalErrorDetailed } from "./utils/matching";
+import { normalize } from "./utils/normalization";
 
 // Mock OpenAI
 const mockCreate = vi.fn().mockResolvedValue({
@@ -418,6 +439,244 @@ describe("Web3ErrorHumanizer", () => {
     });
   });
 
+  describe("Categories", () => {
+    it("should return the section category for local matches", async () => {
+      const result = await humanizer.humanizeDetailed(
+        new Error("INSUFFICIENT_FUNDS")
+      );
+      expect(result.category).toBe("insufficient-funds");
+    });
+
+    it("should return per-entry categories that override the section", async () => {
+      const result = await humanizer.humanizeDetailed(
+        new Error("UniswapV2: K")
+      );
+      expect(result.category).toBe("liquidity");
+    });
+
+    it("should parse the category from a JSON AI reply", async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content:
+                '```json\n{"message": "Your wallet is on the wrong chain.", "category": "chain-mismatch"}\n```',
+            },
+          },
+        ],
+      });
+      const result = await humanizer.humanizeDetailed(
+        new Error("Qx77 unknown chain thing")
+      );
+      expect(result.source).toBe("ai");
+      expect(result.message).toBe("Your wallet is on the wrong chain.");
+      expect(result.category).toBe("chain-mismatch");
+    });
+
+    it("should use unknown for plain-text or invalid AI categories", async () => {
+      const plain = await humanizer.humanizeDetailed(
+        new Error("Qx78 unknown thing")
+      );
+      expect(plain.message).toBe("AI generated response");
+      expect(plain.category).toBe("unknown");
+
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content: '{"message": "Try again.", "category": "bogus"}',
+            },
+          },
+        ],
+      });
+      const invalid = await humanizer.humanizeDetailed(
+        new Error("Qx79 unknown thing")
+      );
+      expect(invalid.message).toBe("Try again.");
+      expect(invalid.category).toBe("unknown");
+    });
+  });
+
+  describe("Retryability and severity", () => {
+    it("should classify retryable transient errors", () => {
+      for (const error of [
+        new Error("TIMEOUT"),
+        { code: -32005, message: "limit exceeded" },
+        new Error("nonce too low"),
+      ]) {
+        const result = humanizeErrorDetailed(error);
+        expect(result.retryable).toBe(true);
+        expect(result.severity).toBe("warning");
+      }
+    });
+
+    it("should classify user rejections as non-retryable info", () => {
+      const result = humanizeErrorDetailed({ code: 4001 });
+      expect(result.retryable).toBe(false);
+      expect(result.severity).toBe("info");
+    });
+
+    it("should classify insufficient funds as a fatal error", () => {
+      const result = humanizeErrorDetailed(new Error("INSUFFICIENT_FUNDS"));
+      expect(result.retryable).toBe(false);
+      expect(result.severity).toBe("error");
+    });
+
+    it("should let entries override their category defaults", () => {
+      const result = humanizeErrorDetailed(new Error("already known"));
+      expect(result.category).toBe("nonce");
+      expect(result.retryable).toBe(false);
+      expect(result.severity).toBe("info");
+    });
+
+    it("should mark fallback results as non-retryable errors", () => {
+      const result = humanizeErrorDetailed(new Error("Qx80 unknown thing"));
+      expect(result.retryable).toBe(false);
+      expect(result.severity).toBe("error");
+    });
+
+    it("should never show a truncated JSON reply", async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content:
+                '{"message": "The node is busy. Try again shortly.", "category": "rp',
+            },
+          },
+        ],
+      });
+      const salvaged = await humanizer.humanizeDetailed(
+        new Error("Qx82 unknown thing")
+      );
+      expect(salvaged.message).toBe("The node is busy. Try again shortly.");
+      expect(salvaged.category).toBe("unknown");
+
+      mockCreate.mockResolvedValueOnce({
+        choices: [{ message: { content: '{"message": "The node is bu' } }],
+      });
+      const cut = await humanizer.humanizeDetailed(
+        new Error("Qx83 unknown thing")
+      );
+      expect(cut.message).toBe("Transaction failed. Please try again.");
+      expect(cut.source).toBe("ai");
+    });
+
+    it("should take retryable and severity from the AI reply", async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                message: "The node is busy. Try again shortly.",
+                category: "rpc",
+                retryable: false,
+                severity: "error",
+              }),
+            },
+          },
+        ],
+      });
+      const result = await humanizer.humanizeDetailed(
+        new Error("Qx81 unknown thing")
+      );
+      expect(result.category).toBe("rpc");
+      expect(result.retryable).toBe(false);
+      expect(result.severity).toBe("error");
+    });
+
+    it("should derive AI traits from the category when omitted", async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content: '{"message": "Network hiccup.", "category": "network"}',
+            },
+          },
+        ],
+      });
+      const result = await humanizer.humanizeDetailed(
+        new Error("Qx82 unknown thing")
+      );
+      expect(result.retryable).toBe(true);
+      expect(result.severity).toBe("warning");
+    });
+  });
+
+  describe("Suggested actions", () => {
+    it("should suggest actions implied by the category", () => {
+      expect(
+        humanizeErrorDetailed(new Error("INSUFFICIENT_OUTPUT_AMOUNT")).actions
+      ).toEqual(["INCREASE_SLIPPAGE", "REFRESH_QUOTE"]);
+      expect(
+        humanizeErrorDetailed(new Error("insufficient allowance")).actions
+      ).toEqual(["APPROVE_TOKEN"]);
+      expect(humanizeErrorDetailed({ code: 4901 }).actions).toEqual([
+        "SWITCH_NETWORK",
+      ]);
+    });
+
+    it("should let entries override the category actions", () => {
+      expect(
+        humanizeErrorDetailed(new Error("INSUFFICIENT_FUNDS")).actions
+      ).toEqual(["ADD_NATIVE_FUNDS"]);
+      expect(
+        humanizeErrorDetailed(new Error("replacement transaction underpriced"))
+          .actions
+      ).toEqual(["SPEED_UP"]);
+    });
+
+    it("should suggest nothing for cancellations and fallbacks", () => {
+      expect(humanizeErrorDetailed({ code: 4001 }).actions).toEqual([]);
+      expect(
+        humanizeErrorDetailed(new Error("Qx83 unknown thing")).actions
+      ).toEqual([]);
+    });
+
+    it("should not share action arrays between results", () => {
+      const first = humanizeErrorDetailed(new Error("insufficient allowance"));
+      first.actions.push("RETRY");
+      const second = humanizeErrorDetailed(new Error("insufficient allowance"));
+      expect(second.actions).toEqual(["APPROVE_TOKEN"]);
+    });
+
+    it("should take known actions from the AI reply", async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                message: "Approve the token, then try again.",
+                category: "allowance",
+                actions: ["APPROVE_TOKEN", "RETRY", "DANCE"],
+              }),
+            },
+          },
+        ],
+      });
+      const result = await humanizer.humanizeDetailed(
+        new Error("Qx84 unknown thing")
+      );
+      expect(result.actions).toEqual(["APPROVE_TOKEN", "RETRY"]);
+    });
+
+    it("should derive AI actions from the category when omitted", async () => {
+      mockCreate.mockResolvedValueOnce({
+        choices: [
+          {
+            message: {
+              content: '{"message": "Network hiccup.", "category": "network"}',
+            },
+          },
+        ],
+      });
+      const result = await humanizer.humanizeDetailed(
+        new Error("Qx85 unknown thing")
+      );
+      expect(result.actions).toEqual(["RETRY"]);
+    });
+  });
+
   describe("Configuration", () => {
     it("should use default model when not specified", () => {
       const config: HumanizerConfig = { openaiApiKey: "test-key" };
@@ -541,75 +800,2032 @@ describe("humanizeErrorDetailed (standalone function)", () => {
     expect(result.rawMessage.toLowerCase()).toContain("action_rejected");
   });
 
+  it("should include the category for local matches", () => {
+    expect(humanizeErrorDetailed({ code: 4001 }).category).toBe(
+      "user-rejected"
+    );
+    expect(humanizeErrorDetailed(new Error("nonce too low")).category).toBe(
+      "nonce"
+    );
+  });
+
   it("should return fallback metadata when no local match", () => {
     const error = new Error("Completely unknown failure 999");
     const result = humanizeErrorDetailed(error, "Fallback test");
     expect(result.source).toBe("fallback");
+    expect(result.category).toBe("unknown");
     expect(result.matchedKey).toBeUndefined();
     expect(result.message).toBe("Fallback test");
     expect(result.rawMessage).toContain("Completely unknown failure 999");
   });
 });
 
-describe("LOCAL_ERROR_MAP", () => {
-  it("should contain all expected error keys", () => {
-    const expectedKeys = [
-      "INSUFFICIENT_FUNDS",
-      "ACTION_REJECTED",
-      "EXPIRED",
-      "INSUFFICIENT_OUTPUT_AMOUNT",
-      "TRANSFER_FROM_FAILED",
-      "Pancake: K",
-      "UniswapV2: K",
-      "UniswapV3: SPL",
-      "insufficient allowance",
-      "out of gas",
-      "4001",
-      "-32603",
-      "NETWORK_ERROR",
-      "Session expired",
-    ];
+describe("Custom error decoding (ABIs)", () => {
+  const vaultAbi = parseAbi([
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error VaultLocked(uint256 unlockTime)",
+  ]);
+  const data = encodeErrorResult({
+    abi: vaultAbi,
+    errorName: "ERC20InsufficientBalance",
+    args: ["0x0000000000000000000000000000000000000001", 1n, 5n],
+  });
 
-    expectedKeys.forEach((key) => {
-      expect(LOCAL_ERROR_MAP).toHaveProperty(key);
-      expect(typeof LOCAL_ERROR_MAP[key]).toBe("string");
+  it("should decode ethers-style revert data with a supplied ABI", () => {
+    const result = humanizeErrorDetailed(
+      { code: "CALL_EXCEPTION", data },
+      { abis: [vaultAbi] }
+    );
+    expect(result.source).toBe("local");
+    expect(result.matchedKey).toBe("ERC20InsufficientBalance");
+    expect(result.decodedError?.name).toBe("ERC20InsufficientBalance");
+    expect(result.decodedError?.selector).toBe(data.slice(0, 10));
+    expect(result.decodedError?.args).toEqual({
+      sender: "0x0000000000000000000000000000000000000001",
+      balance: 1n,
+      needed: 5n,
     });
   });
 
-  it("should have user-friendly messages (no technical jargon)", () => {
-    const technicalTerms = ["0x", "nonce", "wei", "gwei", "calldata"];
+  it("should decode revert data nested in an RPC error", async () => {
+    const humanizer = new Web3ErrorHumanizer({ abis: [vaultAbi] });
+    const error = {
+      message: "execution reverted",
+      error: { code: 3, data },
+    };
+    const result = await humanizer.humanizeDetailed(error);
+    expect(result.matchedKey).toBe("ERC20InsufficientBalance");
+  });
 
-    Object.values(LOCAL_ERROR_MAP).forEach((message) => {
-      technicalTerms.forEach((term) => {
-        expect(message.toLowerCase()).not.toContain(term.toLowerCase());
-      });
+  it("should decode revert data embedded in a message string", () => {
+    const error = new Error(`execution reverted with data ${data}`);
+    const result = humanizeErrorDetailed(error, { abis: [vaultAbi] });
+    expect(result.decodedError?.name).toBe("ERC20InsufficientBalance");
+  });
+
+  const lockedData = encodeErrorResult({
+    abi: vaultAbi,
+    errorName: "VaultLocked",
+    args: [1700000000n],
+  });
+
+  it("should expose unmatched decoded errors on the fallback result", () => {
+    const result = humanizeErrorDetailed(
+      { data: lockedData },
+      {
+        abis: [vaultAbi],
+        fallbackMessage: "Vault error",
+      }
+    );
+    expect(result.source).toBe("fallback");
+    expect(result.message).toBe("Vault error");
+    expect(result.decodedError?.signature).toBe("VaultLocked(uint256)");
+    expect(result.decodedError?.args).toEqual({ unlockTime: 1700000000n });
+  });
+
+  it("should ignore revert data when no ABI knows the selector", () => {
+    const result = humanizeErrorDetailed({ data: lockedData });
+    expect(result.decodedError).toBeUndefined();
+  });
+});
+
+describe("Error(string) and Panic(uint256) decoding", () => {
+  const builtinAbi = parseAbi([
+    "error Error(string message)",
+    "error Panic(uint256 reason)",
+  ]);
+  const encodeReason = (reason: string) =>
+    encodeErrorResult({ abi: builtinAbi, errorName: "Error", args: [reason] });
+  const encodePanic = (code: bigint) =>
+    encodeErrorResult({ abi: builtinAbi, errorName: "Panic", args: [code] });
+
+  it("should decode a panic code from ethers-style data", () => {
+    const result = humanizeErrorDetailed({
+      code: "CALL_EXCEPTION",
+      message: "execution reverted",
+      data: encodePanic(0x11n),
     });
+    expect(result.matchedKey).toBe("0x11");
+    expect(result.message).toBe(LOCAL_ERROR_MAP["0x11"]);
+    expect(result.decodedError?.panicCode).toBe("0x11");
   });
 
-  it("should have at least 200 error patterns", () => {
-    const count = Object.keys(LOCAL_ERROR_MAP).length;
-    expect(count).toBeGreaterThanOrEqual(200);
+  it("should decode a reason string from RPC error.data", () => {
+    const result = humanizeErrorDetailed({
+      message: "Internal JSON-RPC error.",
+      error: { code: -32603, data: encodeReason("UniswapV2: K") },
+    });
+    expect(result.matchedKey).toBe("UniswapV2: K");
+    expect(result.decodedError?.reason).toBe("UniswapV2: K");
+  });
+
+  it("should decode payloads embedded in nested message strings", () => {
+    const error = {
+      info: {
+        error: {
+          message: `execution reverted, data: ${encodePanic(0x12n)}`,
+        },
+      },
+    };
+    expect(humanizeError(error)).toBe(LOCAL_ERROR_MAP["0x12"]);
+  });
+
+  it("should use viem's decoded panic instead of its generic reason", () => {
+    const error = new ContractFunctionRevertedError({
+      abi: [],
+      data: encodePanic(0x32n),
+      functionName: "swap",
+    });
+    const result = humanizeErrorDetailed(error);
+    expect(result.matchedKey).toBe("0x32");
+  });
+
+  it("should fall back to the raw message for unknown panic codes", () => {
+    const data = encodePanic(0x99n);
+    const result = humanizeErrorDetailed({ message: `reverted ${data}` });
+    expect(result.decodedError?.panicCode).toBe("0x99");
+    expect(result.matchedKey).toBe("0x4e487b71");
   });
 });
 
-describe("getLocalErrorCount", () => {
-  it("should return the correct count of error patterns", () => {
-    const count = getLocalErrorCount();
-    expect(count).toBe(Object.keys(LOCAL_ERROR_MAP).length);
-    expect(count).toBeGreaterThanOrEqual(200);
+describe("Selector registry", () => {
+  it("should decode bare ERC-6093 selectors without an ABI", () => {
+    const data = encodeErrorResult({
+      abi: parseAbi([
+        "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+      ]),
+      errorName: "ERC20InsufficientAllowance",
+      args: ["0x0000000000000000000000000000000000000002", 0n, 10n],
+    });
+    const result = humanizeErrorDetailed({ data });
+    expect(result.matchedKey).toBe("ERC20InsufficientAllowance");
+    expect(result.decodedError?.args.needed).toBe(10n);
+  });
+
+  it("should cover OpenZeppelin v5 errors", () => {
+    const abi = parseAbi([
+      "error EnforcedPause()",
+      "error OwnableUnauthorizedAccount(address account)",
+    ]);
+    expect(
+      humanizeErrorDetailed({
+        data: encodeErrorResult({ abi, errorName: "EnforcedPause" }),
+      }).matchedKey
+    ).toBe("EnforcedPause");
+    expect(
+      humanizeErrorDetailed({
+        data: encodeErrorResult({
+          abi,
+          errorName: "OwnableUnauthorizedAccount",
+          args: ["0x0000000000000000000000000000000000000003"],
+        }),
+      }).matchedKey
+    ).toBe("OwnableUnauthorizedAccount");
+  });
+
+  it("should cover Universal Router and Uniswap V4 errors", () => {
+    const abi = parseAbi([
+      "error V3TooLittleReceived()",
+      "error V4TooLittleReceived(uint256 minAmountOutReceived, uint256 amountReceived)",
+    ]);
+    expect(
+      humanizeErrorDetailed({
+        data: encodeErrorResult({ abi, errorName: "V3TooLittleReceived" }),
+      }).matchedKey
+    ).toBe("V3TooLittleReceived");
+    expect(
+      humanizeErrorDetailed({
+        data: encodeErrorResult({
+          abi,
+          errorName: "V4TooLittleReceived",
+          args: [100n, 90n],
+        }),
+      }).decodedError?.args
+    ).toEqual({ minAmountOutReceived: 100n, amountReceived: 90n });
+  });
+
+  it("should look up selectors case-insensitively", () => {
+    expect(lookupErrorSelector("0xD93C0665")?.name).toBe("EnforcedPause");
+  });
+
+  it("should decode selectors registered at runtime", () => {
+    const abi = parseAbi(["error RouterStalled(uint256 since)"]);
+    const data = encodeErrorResult({
+      abi,
+      errorName: "RouterStalled",
+      args: [42n],
+    });
+    expect(humanizeErrorDetailed({ data }).decodedError).toBeUndefined();
+
+    registerErrorSignatures(["error RouterStalled(uint256 since)"]);
+    const result = humanizeErrorDetailed({ data });
+    expect(result.decodedError?.name).toBe("RouterStalled");
+    expect(result.decodedError?.args).toEqual({ since: 42n });
   });
 });
 
-describe("hasLocalPattern", () => {
-  it("should return true for existing patterns", () => {
-    expect(hasLocalPattern("INSUFFICIENT_FUNDS")).toBe(true);
-    expect(hasLocalPattern("ACTION_REJECTED")).toBe(true);
-    expect(hasLocalPattern("4001")).toBe(true);
+describe("Per-instance dictionaries", () => {
+  it("should add custom errors to one instance only", async () => {
+    const custom = new Web3ErrorHumanizer({
+      customErrors: {
+        "MyVault: LOCKED": {
+          message: "The vault is locked until the next epoch.",
+          category: "deadline",
+        },
+      },
+    });
+    const result = await custom.humanizeDetailed(
+      new Error("call reverted with reason MyVault: LOCKED")
+    );
+    expect(result.message).toBe("The vault is locked until the next epoch.");
+    expect(result.matchedKey).toBe("MyVault: LOCKED");
+    expect(result.category).toBe("deadline");
+    expect(result.retryable).toBe(true);
+
+    const plain = new Web3ErrorHumanizer();
+    expect(
+      (
+        await plain.humanizeDetailed(
+          new Error("call reverted with reason MyVault: LOCKED")
+        )
+      ).matchedKey
+    ).toBe("reverted");
+    expect(hasLocalPattern("MyVault: LOCKED")).toBe(false);
   });
 
-  it("should return false for non-existing patterns", () => {
-    expect(hasLocalPattern("RANDOM_NONEXISTENT_ERROR")).toBe(false);
-    expect(hasLocalPattern("")).toBe(false);
+  it("should default new string entries to the unknown category", async () => {
+    const custom = new Web3ErrorHumanizer({
+      customErrors: { "Qx95 tenant error": "Tenant-specific wording." },
+    });
+    const result = await custom.humanizeDetailed(
+      new Error("Qx95 tenant error")
+    );
+    expect(result.source).toBe("local");
+    expect(result.category).toBe("unknown");
+  });
+
+  it("should override bundled wording but keep its metadata", async () => {
+    const tenantA = new Web3ErrorHumanizer({
+      customErrors: { "user rejected": "Swap cancelled." },
+    });
+    const tenantB = new Web3ErrorHumanizer({
+      customErrors: { "User rejected": "You backed out." },
+    });
+
+    const a = await tenantA.humanizeDetailed(new Error("User rejected"));
+    expect(a.message).toBe("Swap cancelled.");
+    expect(a.category).toBe("user-rejected");
+    expect(a.matchedKey).toBe("User rejected");
+    expect(await tenantB.humanize(new Error("User rejected"))).toBe(
+      "You backed out."
+    );
+    expect(humanizeErrorLocal(new Error("User rejected"))).toBe(
+      LOCAL_ERROR_MAP["User rejected"]
+    );
+  });
+
+  it("should drop the bundled template when the wording is overridden", async () => {
+    const custom = new Web3ErrorHumanizer({
+      customErrors: { "insufficient balance": "Top up your wallet." },
+    });
+    expect(
+      await custom.humanize(new Error("insufficient balance"), {
+        fromToken: "USDC",
+      })
+    ).toBe("Top up your wallet.");
+  });
+
+  it("should never match disabled keys", async () => {
+    const custom = new Web3ErrorHumanizer({
+      disabledErrors: ["INSUFFICIENT_OUTPUT_AMOUNT"],
+    });
+    const result = await custom.humanizeDetailed(
+      new Error("INSUFFICIENT_OUTPUT_AMOUNT")
+    );
+    expect(result.source).toBe("fallback");
+    expect(
+      humanizeErrorDetailed(new Error("INSUFFICIENT_OUTPUT_AMOUNT")).source
+    ).toBe("local");
+  });
+
+  it("should match custom numeric codes", async () => {
+    const custom = new Web3ErrorHumanizer({
+      customErrors: { "-32099": "Our node is busy. Please retry." },
+    });
+    const result = await custom.humanizeDetailed({
+      code: -32099,
+      message: "Zqxv backend error",
+    });
+    expect(result.matchedKey).toBe("-32099");
+    expect(result.message).toBe("Our node is busy. Please retry.");
+  });
+
+  it("should match the message when its code is disabled", async () => {
+    const custom = new Web3ErrorHumanizer({ disabledErrors: ["4001"] });
+    const result = await custom.humanizeDetailed({
+      code: 4001,
+      message: "User rejected the request.",
+    });
+    expect(result.rawMessage).toBe("User rejected the request.");
+    expect(result.matchedKey).toBe("User rejected");
+  });
+});
+
+describe("Substring matching engine", () => {
+  it("should find patterns anywhere in the text", () => {
+    const automaton = buildAutomaton(["hers", "she", "his", "he"]);
+    expect(findFirstPattern(automaton, "ushers")).toBe(0);
+    expect(findFirstPattern(automaton, "ushe")).toBe(1);
+    expect(findFirstPattern(automaton, "ahishe")).toBe(1);
+    expect(findFirstPattern(automaton, "xyz")).toBe(-1);
+  });
+
+  it("should prefer the lowest pattern index when several occur", () => {
+    const automaton = buildAutomaton(["out of gas", "gas", "out"]);
+    expect(findFirstPattern(automaton, "ran out of gas today")).toBe(0);
+    expect(findFirstPattern(automaton, "gas then out")).toBe(1);
+  });
+
+  it("should pick the same key as a longest-first linear scan", () => {
+    const toPattern = (key: string, isSubstring: boolean) => {
+      const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      if (isSubstring) {
+        return new RegExp(escaped);
+      }
+      const start = /^\w/.test(key) ? "(?<!\\w)" : "";
+      const end = /\w$/.test(key) ? "(?!\\w)" : "";
+      return new RegExp(`${start}${escaped}${end}`);
+    };
+    const linearScan = (message: string) =>
+      DEFAULT_ERROR_INDEX.substrings.find((entry) =>
+        toPattern(entry.keyLower, entry.isSubstring).test(normalize(message))
+      )?.key;
+
+    const keys = ERROR_SECTIONS.flatMap((section) =>
+      Object.keys(section.entries)
+    );
+    for (const key of keys) {
+      for (const message of [
+        `Error: ${key} (details)`,
+        `${key} execution reverted`,
+        `x${key}y`,
+      ]) {
+        const normalized = normalize(message);
+        if (
+          DEFAULT_ERROR_INDEX.codes.has(normalized) ||
+          DEFAULT_ERROR_INDEX.exact.has(normalized) ||
+          DEFAULT_ERROR_INDEX.patterns.some(({ pattern }) =>
+            pattern?.test(message)
+          )
+        ) {
+          continue;
+        }
+        expect(matchLocalErrorDetailed(message)?.matchedKey).toBe(
+          linearScan(message)
+        );
+      }
+    }
+  });
+});
+
+describe("Token-boundary matching", () => {
+  it("should not match short codes inside longer unlisted codes", () => {
+    expect(humanizeErrorDetailed(new Error("UniswapV3: L")).matchedKey).toBe(
+      "UniswapV3: L"
+    );
+    expect(
+      humanizeErrorDetailed(new Error("UniswapV3: LS")).matchedKey
+    ).not.toBe("UniswapV3: L");
+    expect(
+      humanizeErrorDetailed(new Error("UniswapV3: AIX")).matchedKey
+    ).not.toBe("UniswapV3: AI");
+    expect(
+      humanizeErrorDetailed(new Error("UniswapV3: ASX")).matchedKey
+    ).not.toBe("UniswapV3: AS");
+  });
+
+  it("should not match keys inside unrelated identifiers", () => {
+    expect(
+      humanizeErrorDetailed(new Error("UnhandledNetworkErrorBoundary crashed"))
+        .source
+    ).toBe("fallback");
+    expect(
+      humanizeErrorDetailed(new Error("invalid BLOCK_TIMEOUT_MS setting"))
+        .matchedKey
+    ).not.toBe("TIMEOUT");
+  });
+
+  it("should still match keys surrounded by punctuation", () => {
+    expect(
+      humanizeErrorDetailed(new Error("request failed (NetworkError)"))
+        .matchedKey
+    ).toBe("NetworkError");
+    expect(
+      humanizeErrorDetailed(new Error('call failed: reason="TIMEOUT"'))
+        .matchedKey
+    ).toBe("TIMEOUT");
+  });
+
+  it("should let substring keys match inside longer tokens", async () => {
+    const strict = new Web3ErrorHumanizer({
+      customErrors: { Qx98Vault: "Vault error." },
+    });
+    expect(
+      (await strict.humanizeDetailed(new Error("Qx98VaultPaused"))).source
+    ).toBe("fallback");
+
+    const loose = new Web3ErrorHumanizer({
+      customErrors: { Qx98Vault: { message: "Vault error.", substring: true } },
+    });
+    expect(
+      (await loose.humanizeDetailed(new Error("Qx98VaultPaused"))).matchedKey
+    ).toBe("Qx98Vault");
+  });
+
+  it("should match hex selectors as prefixes of revert payloads", () => {
+    expect(
+      humanizeErrorDetailed(new Error(`reverted 0x31a57e3b${"0".repeat(64)}`))
+        .matchedKey
+    ).toBe("0x31a57e3b");
+  });
+});
+
+describe("Match candidates and confidence", () => {
+  beforeEach(() => {
+    mockCreate.mockClear();
+  });
+
+  it("should give code and exact matches full confidence", () => {
+    const code = humanizeErrorDetailed({ code: 4001 });
+    expect(code.matchType).toBe("code");
+    expect(code.confidence).toBe(1);
+
+    const exact = humanizeErrorDetailed(
+      new Error("INSUFFICIENT_OUTPUT_AMOUNT")
+    );
+    expect(exact.matchType).toBe("exact");
+    expect(exact.confidence).toBe(1);
+  });
+
+  it("should score boundary matches by how much of the message they cover", () => {
+    const tight = humanizeErrorDetailed(
+      new Error("Error: UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT")
+    );
+    const loose = humanizeErrorDetailed(
+      new Error(
+        "Failed to submit transaction to the sequencer after three attempts because: insufficient balance"
+      )
+    );
+    expect(tight.matchType).toBe("boundary");
+    expect(loose.matchType).toBe("boundary");
+    expect(tight.confidence).toBeGreaterThan(0.85);
+    expect(tight.confidence).toBeLessThan(1);
+    expect(loose.confidence).toBeLessThan(0.7);
+  });
+
+  it("should report substring matches inside longer tokens", () => {
+    const result = humanizeErrorDetailed(
+      new Error(`reverted 0x31a57e3b${"0".repeat(64)}`)
+    );
+    expect(result.matchType).toBe("substring");
+  });
+
+  it("should leave confidence unset for fallback results", () => {
+    const result = humanizeErrorDetailed(new Error("Qx99 unknown thing"));
+    expect(result.confidence).toBeUndefined();
+    expect(result.matchType).toBeUndefined();
+  });
+
+  it("should list every candidate, best first", () => {
+    const candidates = getLocalMatchCandidates(
+      new Error("execution reverted: UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT")
+    );
+    const keys = candidates.map((candidate) => candidate.matchedKey);
+    expect(keys[0]).toBe("UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT");
+    expect(keys).toEqual(
+      expect.arrayContaining([
+        "INSUFFICIENT_OUTPUT_AMOUNT",
+        "execution reverted",
+      ])
+    );
+    const scores = candidates.map((candidate) => candidate.confidence);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(
+      humanizeErrorDetailed(
+        new Error("execution reverted: UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT")
+      ).matchedKey
+    ).toBe(keys[0]);
+  });
+
+  it("should return no candidates for unknown errors", () => {
+    expect(getLocalMatchCandidates(new Error("Qx99 unknown thing"))).toEqual(
+      []
+    );
+  });
+
+  it("should use instance packs for candidates", () => {
+    const humanizer = new Web3ErrorHumanizer({ packs: ["common"] });
+    const keys = humanizer
+      .getMatchCandidates(
+        new Error("execution reverted: UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT")
+      )
+      .map((candidate) => candidate.matchedKey);
+    expect(keys).toEqual(["INSUFFICIENT_OUTPUT_AMOUNT"]);
+  });
+
+  it("should escalate low-confidence local matches to AI", async () => {
+    const humanizer = new Web3ErrorHumanizer({
+      openaiApiKey: "test-key",
+      minConfidence: 0.8,
+    });
+    const weak = await humanizer.humanizeDetailed(
+      new Error(
+        "Failed to submit transaction to the sequencer after three attempts because: insufficient balance"
+      )
+    );
+    expect(weak.source).toBe("ai");
+
+    const strong = await humanizer.humanizeDetailed(
+      new Error("INSUFFICIENT_OUTPUT_AMOUNT")
+    );
+    expect(strong.source).toBe("local");
+  });
+
+  it("should keep low-confidence local matches without AI", async () => {
+    const humanizer = new Web3ErrorHumanizer({ minConfidence: 0.8 });
+    const result = await humanizer.humanizeDetailed(
+      new Error(
+        "Failed to submit transaction to the sequencer after three attempts because: insufficient balance"
+      )
+    );
+    expect(result.source).toBe("local");
+  });
+});
+
+describe("Fuzzy matching", () => {
+  it("should be off by default", () => {
+    const result = humanizeErrorDetailed(
+      new Error("Request was rejected by the user")
+    );
+    expect(result.source).toBe("fallback");
+  });
+
+  it("should match reworded messages", () => {
+    const result = humanizeErrorDetailed(
+      new Error("Request was rejected by the user"),
+      { fuzzyThreshold: 0.8 }
+    );
+    expect(result.source).toBe("local");
+    expect(result.matchType).toBe("fuzzy");
+    expect(result.category).toBe("user-rejected");
+  });
+
+  it("should tolerate small typos", () => {
+    expect(
+      humanizeErrorDetailed(new Error("User rejectd the reqest"), {
+        fuzzyThreshold: 0.8,
+      }).category
+    ).toBe("user-rejected");
+    expect(
+      humanizeErrorDetailed(new Error("transaction undrpriced"), {
+        fuzzyThreshold: 0.8,
+      }).matchedKey
+    ).toBe("transaction underpriced");
+  });
+
+  it("should not treat different numbers as typos", () => {
+    const result = humanizeErrorDetailed(new Error("error code 4002"), {
+      fuzzyThreshold: 0.5,
+    });
+    expect(result.matchedKey).not.toBe("4001");
+  });
+
+  it("should respect the threshold", () => {
+    const message = new Error("usr denied transacton signature");
+    expect(humanizeErrorDetailed(message, { fuzzyThreshold: 0.8 }).source).toBe(
+      "fallback"
+    );
+    expect(
+      humanizeErrorDetailed(message, { fuzzyThreshold: 0.7 }).matchedKey
+    ).toBe("User denied request signature");
+  });
+
+  it("should rank below literal matches", () => {
+    const literal = humanizeErrorDetailed(
+      new Error("User rejected the request"),
+      {
+        fuzzyThreshold: 0.5,
+      }
+    );
+    expect(literal.matchType).toBe("boundary");
+
+    const candidates = getLocalMatchCandidates(
+      new Error("User rejected the request"),
+      { fuzzyThreshold: 0.5 }
+    );
+    const fuzzy = candidates.filter(({ matchType }) => matchType === "fuzzy");
+    expect(fuzzy.length).toBeGreaterThan(0);
+    expect(candidates[0].matchType).toBe("boundary");
+    fuzzy.forEach(({ confidence }) => {
+      expect(confidence).toBeLessThanOrEqual(0.5);
+    });
+  });
+
+  it("should be deterministic", () => {
+    const run = () =>
+      getLocalMatchCandidates(new Error("Request was rejected by the user"), {
+        fuzzyThreshold: 0.6,
+      }).map(({ matchedKey, confidence }) => [matchedKey, confidence]);
+    expect(run()).toEqual(run());
+  });
+
+  it("should use the instance threshold", async () => {
+    const humanizer = new Web3ErrorHumanizer({ fuzzyThreshold: 0.8 });
+    const result = await humanizer.humanizeDetailed(
+      new Error("Execution revertd")
+    );
+    expect(result.matchedKey).toBe("execution reverted");
+    expect(result.matchType).toBe("fuzzy");
+  });
+});
+
+describe("Pattern entries", () => {
+  it("should capture details from variable error data", () => {
+    const result = humanizeErrorDetailed(
+      new Error("nonce too low: next nonce 12, tx nonce 9")
+    );
+    expect(result.matchType).toBe("pattern");
+    expect(result.category).toBe("nonce");
+    expect(result.details).toEqual({
+      expectedNonce: "12",
+      providedNonce: "9",
+      nonceIssue: "stuck-pending",
+    });
+    expect(result.message).toContain("#9");
+    expect(result.message).toContain("#12");
+  });
+
+  it("should capture base fee details", () => {
+    const result = humanizeErrorDetailed(
+      new Error(
+        "max fee per gas less than block base fee: address 0x71C7656EC7ab88b098defB751B7401B5f6d8976F, maxFeePerGas: 1000 baseFee: 2000"
+      )
+    );
+    expect(result.details).toEqual({ maxFeePerGas: "1000", baseFee: "2000" });
+    expect(result.actions).toEqual(["SPEED_UP"]);
+  });
+
+  it("should keep plain keys for messages without the variable part", () => {
+    const result = humanizeErrorDetailed(new Error("nonce too low"));
+    expect(result.matchedKey).toBe("nonce too low");
+    expect(result.details).toEqual({ nonceIssue: "stuck-pending" });
+  });
+
+  it("should support custom pattern entries with context placeholders", async () => {
+    const humanizer = new Web3ErrorHumanizer({
+      customErrors: {
+        "bundler rejected user operation": {
+          message: "Your smart account couldn't pay for this transaction.",
+          template:
+            "Your smart account on {network} couldn't pay for this transaction ({code}).",
+          pattern: /FailedOp\(\d+, "(?<code>AA\d\d) (?<reason>[^"]+)"\)/,
+          category: "insufficient-funds",
+        },
+      },
+    });
+    const result = await humanizer.humanizeDetailed(
+      new Error(`FailedOp(0, "AA21 didn't pay prefund")`),
+      { network: "Base" }
+    );
+    expect(result.matchedKey).toBe("bundler rejected user operation");
+    expect(result.details).toEqual({
+      code: "AA21",
+      reason: "didn't pay prefund",
+    });
+    expect(result.message).toBe(
+      "Your smart account on Base couldn't pay for this transaction (AA21)."
+    );
+  });
+
+  it("should rank pattern matches above substring matches", () => {
+    const candidates = getLocalMatchCandidates(
+      new Error("nonce too low: next nonce 12, tx nonce 9")
+    );
+    expect(candidates[0].matchType).toBe("pattern");
+    expect(candidates.map(({ matchedKey }) => matchedKey)).toContain(
+      "nonce too low"
+    );
+  });
+
+  it("should match repeatedly with global patterns", () => {
+    const humanizer = new Web3ErrorHumanizer({
+      customErrors: {
+        "vault cap": { message: "Vault is full.", pattern: /cap (?<cap>\d+)/g },
+      },
+    });
+    const first = humanizer.getMatchCandidates(new Error("cap 5 reached"));
+    const second = humanizer.getMatchCandidates(new Error("cap 5 reached"));
+    expect(first[0].details).toEqual({ cap: "5" });
+    expect(second[0].details).toEqual({ cap: "5" });
+  });
+});
+
+describe("Insufficient-funds shortfall", () => {
+  const gethError = new Error(
+    "insufficient funds for gas * price + value: address 0x71C7656EC7ab88b098defB751B7401B5f6d8976F have 1200000000000000 want 5000000000000000"
+  );
+
+  it("should compute the missing amount", () => {
+    const result = humanizeErrorDetailed(gethError);
+    expect(result.category).toBe("insufficient-funds");
+    expect(result.actions).toEqual(["ADD_NATIVE_FUNDS"]);
+    expect(result.shortfall).toEqual({
+      have: "1200000000000000",
+      want: "5000000000000000",
+      missing: "3800000000000000",
+      formatted: "0.0038",
+    });
+  });
+
+  it("should format the shortfall in the chain's native token", () => {
+    expect(
+      humanizeErrorDetailed(gethError, { context: { chainId: 1 } }).message
+    ).toBe("You need 0.0038 more ETH to cover this transaction.");
+    expect(humanizeError(gethError, { context: { chainId: 56 } })).toBe(
+      "You need 0.0038 more BNB to cover this transaction."
+    );
+  });
+
+  it("should use the generic message without a known chain", () => {
+    const result = humanizeErrorDetailed(gethError, {
+      context: { chainId: 999999 },
+    });
+    expect(result.message).not.toContain("0.0038");
+    expect(result.shortfall?.symbol).toBeUndefined();
+  });
+
+  it("should round the shortfall up", () => {
+    const result = humanizeErrorDetailed(
+      new Error(
+        "insufficient funds for gas * price + value: have 1 want 3812345678901235"
+      ),
+      { context: { chainId: 1 } }
+    );
+    expect(result.shortfall?.formatted).toBe("0.003813");
+  });
+
+  it("should ignore have/want pairs without a shortfall", () => {
+    const result = humanizeErrorDetailed(
+      new Error("insufficient funds for gas * price + value: have 5 want 5")
+    );
+    expect(result.category).toBe("insufficient-funds");
+    expect(result.shortfall).toBeUndefined();
+  });
+});
+
+describe("Gas diagnostics", () => {
+  it("should recommend a max fee above the base fee", () => {
+    const result = humanizeErrorDetailed(
+      new Error(
+        "max fee per gas less than block base fee: address 0x71C7656EC7ab88b098defB751B7401B5f6d8976F, maxFeePerGas: 1000000000, baseFee: 2000000000"
+      )
+    );
+    expect(result.details).toMatchObject({
+      maxFeePerGas: "1000000000",
+      baseFee: "2000000000",
+    });
+    expect(result.gasRecommendation).toEqual({ maxFeePerGas: "2260000000" });
+  });
+
+  it("should recommend the default replacement bump", () => {
+    const result = humanizeErrorDetailed(
+      new Error("replacement transaction underpriced")
+    );
+    expect(result.gasRecommendation).toEqual({ bumpPercent: 10 });
+    expect(result.details).toEqual({ bumpPercent: "10" });
+  });
+
+  it("should compute the replacement threshold from the queued fee", () => {
+    const feeCap = humanizeErrorDetailed(
+      new Error(
+        "replacement transaction underpriced: new tx gas fee cap 30000000000 <= 30000000000 queued + 10% replacement penalty"
+      )
+    );
+    expect(feeCap.gasRecommendation).toEqual({
+      bumpPercent: 10,
+      maxFeePerGas: "33000000000",
+    });
+
+    const tipCap = humanizeErrorDetailed(
+      new Error(
+        "replacement transaction underpriced: new tx gas tip cap 1000000000 <= 1000000000 queued + 100% replacement penalty"
+      )
+    );
+    expect(tipCap.gasRecommendation).toEqual({
+      bumpPercent: 100,
+      maxPriorityFeePerGas: "2000000000",
+    });
+  });
+
+  it("should recommend the intrinsic gas as the gas limit", () => {
+    const result = humanizeErrorDetailed(
+      new Error("intrinsic gas too low: have 21000, want 53000")
+    );
+    expect(result.gasRecommendation).toEqual({ gasLimit: "53000" });
+    expect(result.message).toContain("at least 53000");
+  });
+
+  it("should cap the priority fee at the max fee", () => {
+    const result = humanizeErrorDetailed(
+      new Error(
+        "max priority fee per gas higher than max fee per gas: address 0x71C7656EC7ab88b098defB751B7401B5f6d8976F, maxPriorityFeePerGas: 3000000000, maxFeePerGas: 2000000000"
+      )
+    );
+    expect(result.category).toBe("invalid-input");
+    expect(result.gasRecommendation).toEqual({
+      maxPriorityFeePerGas: "2000000000",
+    });
+  });
+
+  it("should omit recommendations for errors without numbers", () => {
+    expect(
+      humanizeErrorDetailed(new Error("out of gas")).gasRecommendation
+    ).toBeUndefined();
+  });
+});
+
+describe("Nonce diagnostics", () => {
+  it("should parse geth and Erigon nonce values", () => {
+    const low = humanizeErrorDetailed(
+      new Error(
+        "nonce too low: address 0x71C7656EC7ab88b098defB751B7401B5f6d8976F, tx: 9 state: 12"
+      )
+    );
+    expect(low.nonceDiagnosis).toEqual({
+      issue: "stuck-pending",
+      expectedNonce: 12,
+      providedNonce: 9,
+    });
+    expect(low.message).toContain("#9");
+
+    const high = humanizeErrorDetailed(
+      new Error(
+        "nonce too high: address 0x71C7656EC7ab88b098defB751B7401B5f6d8976F, tx: 15 state: 12"
+      )
+    );
+    expect(high.nonceDiagnosis).toEqual({
+      issue: "gap",
+      expectedNonce: 12,
+      providedNonce: 15,
+      gapSize: 3,
+    });
+  });
+
+  it("should parse Nethermind and Besu nonce values", () => {
+    for (const message of [
+      "OldNonce, Current nonce: 12, nonce of rejected tx: 9",
+      "transaction nonce 9 below sender account nonce 12",
+    ]) {
+      expect(humanizeErrorDetailed(new Error(message)).nonceDiagnosis).toEqual({
+        issue: "stuck-pending",
+        expectedNonce: 12,
+        providedNonce: 9,
+      });
+    }
+  });
+
+  it("should diagnose viem nonce errors", () => {
+    expect(
+      humanizeErrorDetailed(new NonceTooLowError({ nonce: 9 })).nonceDiagnosis
+    ).toEqual({ issue: "stuck-pending", providedNonce: 9 });
+    expect(
+      humanizeErrorDetailed(new NonceTooHighError({ nonce: 15 })).nonceDiagnosis
+    ).toEqual({ issue: "gap", providedNonce: 15 });
+  });
+
+  it("should diagnose nonce errors without values", () => {
+    expect(
+      humanizeErrorDetailed(new Error("nonce too low")).nonceDiagnosis
+    ).toEqual({ issue: "stuck-pending" });
+    expect(
+      humanizeErrorDetailed(new Error("already known")).nonceDiagnosis
+    ).toEqual({ issue: "duplicate" });
+  });
+
+  it("should omit the diagnosis for other errors", () => {
+    expect(
+      humanizeErrorDetailed(new Error("execution reverted")).nonceDiagnosis
+    ).toBeUndefined();
+  });
+});
+
+describe("Error chain", () => {
+  const wrapped = new Error("gas estimation failed", {
+    cause: new Error("insufficient allowance"),
+  });
+  const rpcError = {
+    code: -32603,
+    message: "Internal JSON-RPC error.",
+    data: { code: 3, message: "ERC20: insufficient allowance" },
+  };
+
+  it("should expose every layer, outermost first", () => {
+    expect(humanizeErrorDetailed(wrapped).errorChain).toEqual([
+      { source: "generic", message: "gas estimation failed", name: "Error" },
+      { source: "generic", message: "insufficient allowance", name: "Error" },
+    ]);
+    expect(humanizeErrorDetailed(rpcError).errorChain).toEqual([
+      { source: "rpc", message: "Internal JSON-RPC error.", code: -32603 },
+      { source: "rpc", message: "ERC20: insufficient allowance", code: 3 },
+    ]);
+  });
+
+  it("should label wallet and ethers layers", () => {
+    const chain = humanizeErrorDetailed({
+      code: "ACTION_REJECTED",
+      reason: "rejected",
+      error: { code: 4001, message: "User rejected the request." },
+    }).errorChain;
+    expect(chain?.map(({ source }) => source)).toEqual(["ethers", "wallet"]);
+  });
+
+  it("should label viem layers", () => {
+    const chain = humanizeErrorDetailed(
+      new NonceTooLowError({ cause: new Error("nonce too low") })
+    ).errorChain;
+    expect(chain?.[0]).toMatchObject({
+      source: "viem",
+      name: "NonceTooLowError",
+    });
+    expect(chain?.at(-1)?.message).toBe("nonce too low");
+  });
+
+  it("should keep matching the extracted message by default", () => {
+    expect(humanizeErrorDetailed(rpcError).matchedKey).toBe("-32603");
+  });
+
+  it("should prefer the root cause when matching the chain", () => {
+    const result = humanizeErrorDetailed(rpcError, { matchErrorChain: true });
+    expect(result.matchedKey).toBe("ERC20: insufficient allowance");
+  });
+
+  it("should combine a root cause with its outer context", async () => {
+    const result = humanizeErrorDetailed(wrapped, { matchErrorChain: true });
+    expect(result.matchedKey).toBe(
+      "gas estimation failed: insufficient allowance"
+    );
+    expect(result.category).toBe("allowance");
+
+    const humanizer = new Web3ErrorHumanizer({ matchErrorChain: true });
+    expect((await humanizer.humanizeDetailed(wrapped)).matchedKey).toBe(
+      result.matchedKey
+    );
+  });
+
+  it("should send the whole chain to AI", async () => {
+    mockCreate.mockClear();
+    const humanizer = new Web3ErrorHumanizer({
+      openaiApiKey: "test-key",
+      matchErrorChain: true,
+    });
+    const result = await humanizer.humanizeDetailed(
+      new Error("bundle simulation failed", { cause: new Error("Qx99 thing") })
+    );
+    expect(result.source).toBe("ai");
+    expect(result.errorChain).toHaveLength(2);
+    const prompt = mockCreate.mock.calls[0][0].messages[0].content;
+    expect(prompt).toContain("bundle simulation failed: Qx99 thing");
+  });
+});
+
+describe("ethers errors", () => {
+  it("should use the custom error ethers v6 decoded", () => {
+    const result = humanizeErrorDetailed({
+      code: "CALL_EXCEPTION",
+      action: "estimateGas",
+      reason: null,
+      revert: {
+        name: "V4TooLittleReceived",
+        signature: "V4TooLittleReceived(uint256,uint256)",
+        args: [100n, 90n],
+      },
+      shortMessage: "execution reverted (unknown custom error)",
+    });
+    expect(result.matchedKey).toBe("V4TooLittleReceived");
+    expect(result.ethersCode).toBe("CALL_EXCEPTION");
+    expect(result.decodedError).toEqual({
+      name: "V4TooLittleReceived",
+      signature: "V4TooLittleReceived(uint256,uint256)",
+      selector: toFunctionSelector("V4TooLittleReceived(uint256,uint256)"),
+      args: { "0": 100n, "1": 90n },
+    });
+  });
+
+  it("should read the revert reason of a CALL_EXCEPTION", () => {
+    const error = Object.assign(
+      new Error('execution reverted: "ERC20: insufficient allowance"'),
+      {
+        code: "CALL_EXCEPTION",
+        reason: "ERC20: insufficient allowance",
+        revert: {
+          name: "Error",
+          signature: "Error(string)",
+          args: ["ERC20: insufficient allowance"],
+        },
+      }
+    );
+    const result = humanizeErrorDetailed(error);
+    expect(result.matchedKey).toBe("ERC20: insufficient allowance");
+    expect(result.decodedError?.reason).toBe("ERC20: insufficient allowance");
+  });
+
+  it("should unwrap the JSON-RPC error in info.error", () => {
+    const result = humanizeErrorDetailed({
+      code: "INSUFFICIENT_FUNDS",
+      shortMessage: "insufficient funds for intrinsic transaction cost",
+      transaction: { to: "0x0000000000000000000000000000000000000001" },
+      info: {
+        error: {
+          code: -32000,
+          message: "insufficient funds for gas * price + value: have 1 want 3",
+        },
+      },
+    });
+    expect(result.matchType).toBe("pattern");
+    expect(result.shortfall?.missing).toBe("2");
+    expect(result.errorChain?.map(({ source }) => source)).toEqual([
+      "ethers",
+      "rpc",
+    ]);
+  });
+
+  it("should unwrap the JSON-RPC error of ethers v5", () => {
+    const result = humanizeErrorDetailed({
+      code: "UNPREDICTABLE_GAS_LIMIT",
+      reason:
+        "cannot estimate gas; transaction may fail or may require manual gas limit",
+      error: {
+        code: -32603,
+        message: "execution reverted: ERC20: insufficient allowance",
+      },
+    });
+    expect(result.matchedKey).toBe("ERC20: insufficient allowance");
+    expect(result.ethersCode).toBe("UNPREDICTABLE_GAS_LIMIT");
+  });
+
+  it("should match ACTION_REJECTED by its code", () => {
+    const error = Object.assign(new Error("user rejected action"), {
+      code: "ACTION_REJECTED",
+      action: "sendTransaction",
+      reason: "rejected",
+      info: {
+        error: {
+          code: 4001,
+          message: "MetaMask Tx Signature: User denied transaction signature.",
+        },
+        payload: { method: "eth_sendTransaction", params: [] },
+      },
+    });
+    const result = humanizeErrorDetailed(error);
+    expect(result.matchedKey).toBe("ACTION_REJECTED");
+    expect(result.ethersCode).toBe("ACTION_REJECTED");
+    expect(result.category).toBe("user-rejected");
+    expect(result.severity).toBe("info");
+  });
+
+  it("should prefer nonce codes unless the node reports the nonces", () => {
+    expect(
+      humanizeErrorDetailed({
+        code: "NONCE_EXPIRED",
+        info: { error: { code: -32000, message: "nonce too low" } },
+      }).matchedKey
+    ).toBe("NONCE_EXPIRED");
+    expect(
+      humanizeErrorDetailed({
+        code: "NONCE_EXPIRED",
+        info: {
+          error: {
+            code: -32000,
+            message: "nonce too low: next nonce 12, tx nonce 9",
+          },
+        },
+      }).rawMessage
+    ).toBe("nonce too low: next nonce 12, tx nonce 9");
+  });
+
+  it("should fall back to the ethers code for unknown node messages", () => {
+    const result = humanizeErrorDetailed({
+      code: "SERVER_ERROR",
+      info: { error: { code: -32099, message: "Zqxv frobnicated" } },
+    });
+    expect(result.rawMessage).toBe("Zqxv frobnicated");
+    expect(result.matchedKey).toBe("SERVER_ERROR");
+  });
+
+  it("should prefer ethers' short message to a generic code", () => {
+    const result = humanizeErrorDetailed({
+      code: "INVALID_ARGUMENT",
+      shortMessage: "invalid address",
+    });
+    expect(result.rawMessage).toBe("invalid address");
+    expect(result.matchedKey).toBe("invalid address");
+  });
+
+  it("should not match ethers codes against other chains' entries", () => {
+    const error = {
+      code: "UNKNOWN_ERROR",
+      shortMessage: "could not coalesce error",
+      error: { message: "Internal JSON-RPC error." },
+    };
+    const result = humanizeErrorDetailed(error);
+    expect(result.source).toBe("fallback");
+    expect(result.ethersCode).toBe("UNKNOWN_ERROR");
+    expect(getLocalMatchCandidates(error)).toEqual([]);
+  });
+
+  it("should not report a code for other errors", () => {
+    expect(
+      humanizeErrorDetailed({ code: 4001, message: "User rejected" }).ethersCode
+    ).toBeUndefined();
+  });
+});
+
+describe("web3.js errors", () => {
+  const web3Error = (name: string, code: number, message: string, extra = {}) =>
+    Object.assign(new Error(message), { name, code, ...extra });
+
+  it("should read the innerError of a ContractExecutionError", () => {
+    const error = web3Error(
+      "ContractExecutionError",
+      310,
+      "Error happened while trying to execute a function inside a smart contract",
+      {
+        innerError: web3Error(
+          "Eip838ExecutionError",
+          3,
+          "execution reverted: ERC20: insufficient allowance"
+        ),
+      }
+    );
+    const result = humanizeErrorDetailed(error);
+    expect(result.matchedKey).toBe("ERC20: insufficient allowance");
+    expect(result.errorChain?.map(({ source }) => source)).toEqual([
+      "web3js",
+      "web3js",
+    ]);
+  });
+
+  it("should read cause.data of a ResponseError", () => {
+    const error = web3Error(
+      "ResponseError",
+      100,
+      "Returned error: Internal JSON-RPC error.",
+      {
+        cause: {
+          code: -32603,
+          message: "Internal JSON-RPC error.",
+          data: { message: "execution reverted: Too little received" },
+        },
+      }
+    );
+    expect(humanizeErrorDetailed(error).matchedKey).toBe("Too little received");
+  });
+
+  it("should match the node error in a ResponseError's own message", () => {
+    const error = web3Error(
+      "ResponseError",
+      100,
+      "Returned error: insufficient funds for gas * price + value"
+    );
+    const result = humanizeErrorDetailed(error);
+    expect(result.category).toBe("insufficient-funds");
+    expect(result.pack).not.toBe("web3js");
+
+    const hardhatError = web3Error(
+      "ResponseError",
+      100,
+      "Returned error: Internal JSON-RPC error.",
+      { data: { message: "execution reverted: Too little received" } }
+    );
+    expect(humanizeErrorDetailed(hardhatError).matchedKey).toBe(
+      "Too little received"
+    );
+  });
+
+  it("should read the reason of a reverted transaction", () => {
+    const error = web3Error(
+      "TransactionRevertInstructionError",
+      401,
+      "Transaction has been reverted by the EVM",
+      { reason: "UniswapV2: K", receipt: { status: 0n } }
+    );
+    expect(humanizeErrorDetailed(error).matchedKey).toBe("UniswapV2: K");
+  });
+
+  it("should use the custom error web3.js decoded", () => {
+    const error = web3Error(
+      "TransactionRevertWithCustomError",
+      438,
+      "Transaction has been reverted by the EVM",
+      {
+        reason: "",
+        customErrorName: "V4TooLittleReceived",
+        customErrorDecodedSignature: "V4TooLittleReceived(uint256,uint256)",
+        customErrorArguments: {
+          "0": 100n,
+          "1": 90n,
+          minAmountOutReceived: 100n,
+          amountReceived: 90n,
+          __length__: 2,
+        },
+      }
+    );
+    const result = humanizeErrorDetailed(error);
+    expect(result.matchedKey).toBe("V4TooLittleReceived");
+    expect(result.decodedError?.args).toEqual({
+      minAmountOutReceived: 100n,
+      amountReceived: 90n,
+    });
+  });
+
+  it("should fall back to the web3.js error code", () => {
+    const contractError = web3Error(
+      "ContractExecutionError",
+      310,
+      "Error happened while trying to execute a function inside a smart contract",
+      { innerError: web3Error("Eip838ExecutionError", 3, "Zqxv frobnicated") }
+    );
+    expect(humanizeErrorDetailed(contractError).matchedKey).toBe(
+      "ERR_CONTRACT_EXECUTION_REVERTED"
+    );
+    expect(
+      humanizeErrorDetailed({
+        code: 433,
+        message: "Zqxv",
+        innerError: undefined,
+      }).matchedKey
+    ).toBe("ERR_TX_SIGNING");
+  });
+
+  it("should not mark send and block timeouts as retryable", () => {
+    for (const code of [431, 432]) {
+      const result = humanizeErrorDetailed(
+        web3Error("TransactionSendTimeoutError", code, "Zqxv timed out")
+      );
+      expect(result.retryable).toBe(false);
+      expect(result.severity).toBe("warning");
+    }
+  });
+
+  it("should not treat other numeric codes as web3.js codes", () => {
+    expect(
+      humanizeErrorDetailed({ code: 433, message: "Zqxv frobnicated" })
+        .matchedKey
+    ).toBeUndefined();
+  });
+});
+
+describe("Solana errors", () => {
+  const JUPITER = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+  const TOKEN = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+
+  it("should read a bare InstructionError", () => {
+    const result = humanizeErrorDetailed({
+      InstructionError: [2, { Custom: 6001 }],
+    });
+    expect(result.matchedKey).toBe("0x1771");
+    expect(result.solanaFailure).toEqual({
+      instructionIndex: 2,
+      error: "Custom",
+      customCode: 6001,
+    });
+  });
+
+  it("should name the failing well-known program from the logs", () => {
+    const error = Object.assign(
+      new Error(
+        "Simulation failed. \nMessage: Transaction simulation failed: Error processing Instruction 2: custom program error: 0x1771."
+      ),
+      {
+        name: "SendTransactionError",
+        logs: [
+          "Program ComputeBudget111111111111111111111111111111 invoke [1]",
+          "Program ComputeBudget111111111111111111111111111111 success",
+          `Program ${JUPITER} invoke [1]`,
+          "Program log: Instruction: Route",
+          "Program log: AnchorError occurred. Error Code: SlippageToleranceExceeded. Error Number: 6001. Error Message: Slippage tolerance exceeded.",
+          `Program ${JUPITER} consumed 52000 of 200000 compute units`,
+          `Program ${JUPITER} failed: custom program error: 0x1771`,
+        ],
+      }
+    );
+    const result = humanizeErrorDetailed(error, {
+      context: { slippage: "0.5%" },
+    });
+    expect(result.matchedKey).toBe("Jupiter: SlippageToleranceExceeded");
+    expect(result.message).toBe(
+      "Price moved more than your 0.5% slippage tolerance. Try increasing it."
+    );
+    expect(result.solanaFailure).toEqual({
+      instructionIndex: 2,
+      error: "Custom",
+      customCode: 6001,
+      programId: JUPITER,
+      program: "Jupiter",
+      programError: "SlippageToleranceExceeded",
+      logMessage: "Slippage tolerance exceeded",
+    });
+  });
+
+  it("should match the logged message of other programs", () => {
+    const result = humanizeErrorDetailed({
+      err: { InstructionError: [0, { Custom: 42 }] },
+      logs: [
+        "Program Swap1111111111111111111111111111111111111 invoke [1]",
+        "Program log: Error: slippage tolerance exceeded",
+        "Program Swap1111111111111111111111111111111111111 failed: custom program error: 0x2a",
+      ],
+    });
+    expect(result.matchedKey).toBe("Slippage tolerance exceeded");
+    expect(result.solanaFailure?.program).toBeUndefined();
+  });
+
+  it("should map SPL Token errors of a confirmation result", () => {
+    const result = humanizeErrorDetailed({
+      value: {
+        err: { InstructionError: [1, { Custom: 1 }] },
+        logs: [
+          `Program ${TOKEN} invoke [1]`,
+          "Program log: Error: insufficient funds",
+          `Program ${TOKEN} failed: custom program error: 0x1`,
+        ],
+      },
+    });
+    expect(result.matchedKey).toBe("SPL Token: InsufficientFunds");
+    expect(result.category).toBe("insufficient-funds");
+  });
+
+  it("should match TransactionError variants", () => {
+    expect(
+      humanizeErrorDetailed({ err: "InsufficientFundsForFee" }).matchedKey
+    ).toBe("InsufficientFundsForFee");
+    expect(
+      humanizeErrorDetailed({
+        InstructionError: [0, "ProgramFailedToComplete"],
+      }).matchedKey
+    ).toBe("ProgramFailedToComplete");
+  });
+
+  it("should fall back to the custom program error", () => {
+    const result = humanizeErrorDetailed({
+      InstructionError: [0, { Custom: 9999 }],
+    });
+    expect(result.rawMessage).toBe("custom program error: 0x270f");
+    expect(result.matchedKey).toBe("custom program error");
+  });
+
+  it("should ignore err objects that aren't TransactionErrors", () => {
+    const result = humanizeErrorDetailed({
+      err: { message: "oops" },
+      message: "Request failed",
+    });
+    expect(result.solanaFailure).toBeUndefined();
+    expect(result.rawMessage).toBe("Request failed");
+  });
+
+  it("should ignore err names that aren't TransactionError variants", () => {
+    const result = humanizeErrorDetailed({
+      err: "Timeout",
+      message: "Request failed",
+    });
+    expect(result.solanaFailure).toBeUndefined();
+    expect(result.rawMessage).toBe("Request failed");
+    expect(
+      humanizeErrorDetailed({ err: { SomethingElse: 1 } }).solanaFailure
+    ).toBeUndefined();
+  });
+});
+
+describe("Anchor errors", () => {
+  const PROGRAM = "Perp1111111111111111111111111111111111111111";
+  const idl = {
+    address: PROGRAM,
+    errors: [
+      {
+        code: 6010,
+        name: "SlippageToleranceExceeded",
+        msg: "Qzv slippage check failed",
+      },
+      { code: 6011, name: "MarketPaused", msg: "Qzv market is paused" },
+    ],
+  };
+  const failedWith = (code: number) => ({
+    err: { InstructionError: [1, { Custom: code }] },
+    logs: [
+      `Program ${PROGRAM} invoke [1]`,
+      `Program ${PROGRAM} consumed 5000 of 200000 compute units`,
+      `Program ${PROGRAM} failed: custom program error: 0x${code.toString(16)}`,
+    ],
+  });
+
+  it("should decode custom codes with a registered IDL", () => {
+    const result = humanizeErrorDetailed(failedWith(6010), {
+      anchorIdls: { [PROGRAM]: idl },
+    });
+    expect(result.matchedKey).toBe("SlippageToleranceExceeded");
+    expect(result.solanaFailure).toMatchObject({
+      programId: PROGRAM,
+      customCode: 6010,
+      programError: "SlippageToleranceExceeded",
+      programMessage: "Qzv slippage check failed",
+    });
+    expect(humanizeErrorDetailed(failedWith(6010)).matchedKey).toBe(
+      "custom program error"
+    );
+  });
+
+  it("should send the IDL message to AI when the dictionary has no match", async () => {
+    mockCreate.mockClear();
+    const humanizer = new Web3ErrorHumanizer({
+      openaiApiKey: "test-key",
+      anchorIdls: { [PROGRAM]: idl },
+    });
+    const result = await humanizer.humanizeDetailed(failedWith(6011));
+    expect(result.source).toBe("ai");
+    expect(result.rawMessage).toBe("Qzv market is paused");
+    expect(result.solanaFailure?.programError).toBe("MarketPaused");
+  });
+
+  it("should not match IDL messages against generic keys", async () => {
+    const slippageIdl = {
+      errors: [
+        { code: 6012, name: "SlippageBreached", msg: "Slippage exceeded" },
+      ],
+    };
+    const result = humanizeErrorDetailed(failedWith(6012), {
+      anchorIdls: { [PROGRAM]: slippageIdl },
+    });
+    expect(result.matchedKey).toBeUndefined();
+    expect(result.message).toBe("Slippage exceeded");
+    expect(result.rawMessage).toBe("Slippage exceeded");
+
+    mockCreate.mockClear();
+    const humanizer = new Web3ErrorHumanizer({
+      openaiApiKey: "test-key",
+      anchorIdls: { [PROGRAM]: slippageIdl },
+    });
+    expect((await humanizer.humanizeDetailed(failedWith(6012))).source).toBe(
+      "ai"
+    );
+  });
+
+  it("should show the IDL message without AI", async () => {
+    const humanizer = new Web3ErrorHumanizer({
+      anchorIdls: { [PROGRAM]: idl },
+    });
+    const result = await humanizer.humanizeDetailed(failedWith(6011));
+    expect(result.message).toBe("Qzv market is paused");
+    expect(result.source).toBe("local");
+    expect(result.category).toBe("contract-revert");
+    expect(result.solanaFailure?.programError).toBe("MarketPaused");
+    expect(
+      humanizeError(failedWith(6011), { anchorIdls: { [PROGRAM]: idl } })
+    ).toBe("Qzv market is paused");
+  });
+
+  it("should show the IDL message when AI fails", async () => {
+    const humanizer = new Web3ErrorHumanizer({
+      openaiApiKey: "test-key",
+      anchorIdls: { [PROGRAM]: idl },
+    });
+    mockCreate.mockResolvedValueOnce({ choices: [] });
+    const result = await humanizer.humanizeDetailed(failedWith(6011));
+    expect(result.message).toBe("Qzv market is paused");
+    expect(result.source).toBe("local");
+  });
+
+  it("should name Anchor framework errors without an IDL", () => {
+    const result = humanizeErrorDetailed({
+      InstructionError: [0, { Custom: 3012 }],
+    });
+    expect(result.matchedKey).toBe("Anchor: AccountNotInitialized");
+    expect(result.solanaFailure?.programError).toBe("AccountNotInitialized");
+  });
+
+  it("should read AnchorError log lines", () => {
+    const result = humanizeErrorDetailed({
+      logs: [
+        `Program ${PROGRAM} invoke [1]`,
+        "Program log: AnchorError caused by account: pool. Error Code: ConstraintSeeds. Error Number: 2006. Error Message: A seeds constraint was violated.",
+        `Program ${PROGRAM} failed: custom program error: 0x7d6`,
+      ],
+    });
+    expect(result.matchedKey).toBe("Anchor: ConstraintSeeds");
+    expect(result.solanaFailure?.logMessage).toBe(
+      "A seeds constraint was violated"
+    );
+  });
+});
+
+describe("Move aborts", () => {
+  it("should name Sui framework aborts", () => {
+    const result = humanizeErrorDetailed(
+      new Error(
+        'Dry run failed: MoveAbort(MoveLocation { module: ModuleId { address: 0000000000000000000000000000000000000000000000000000000000000002, name: Identifier("balance") }, function: 2, instruction: 10, function_name: Some("split") }, 2) in command 0'
+      )
+    );
+    expect(result.matchedKey).toBe("0x2::balance::ENotEnough");
+    expect(result.category).toBe("insufficient-funds");
+    expect(result.moveAbort).toEqual({
+      moduleAddress: "0x2",
+      moduleName: "balance",
+      abortCode: 2,
+      errorName: "ENotEnough",
+      functionName: "split",
+    });
+  });
+
+  it("should decode Aptos canonical codes from vm_status", () => {
+    const result = humanizeErrorDetailed({
+      vm_status:
+        "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins to complete transaction",
+    });
+    expect(result.matchedKey).toBe("0x1::coin::EINSUFFICIENT_BALANCE");
+    expect(result.moveAbort).toMatchObject({
+      abortCode: 0x10006,
+      category: "INVALID_ARGUMENT",
+      reason: 6,
+    });
+  });
+
+  it("should fall back to the canonical category for unknown modules", () => {
+    const result = humanizeErrorDetailed("Move abort in 0xabc::pool: 0x50001");
+    expect(result.matchedKey).toBe("Move abort: PERMISSION_DENIED");
+    expect(result.category).toBe("permission");
+  });
+
+  it("should name aborts of registered modules", async () => {
+    registerMoveAbortCodes("0x0def::vault", { 7: "EVaultLocked" });
+    const error = {
+      effects: {
+        status: {
+          status: "failure",
+          error:
+            "MoveAbort(MoveLocation { module: 0xdef::vault, function: 1, instruction: 3 }, 7) in command 1",
+        },
+      },
+    };
+    expect(humanizeErrorDetailed(error).moveAbort?.errorName).toBe(
+      "EVaultLocked"
+    );
+
+    const humanizer = new Web3ErrorHumanizer({
+      customErrors: { "0xdef::vault::EVaultLocked": "The vault is locked." },
+    });
+    const result = await humanizer.humanizeDetailed(error);
+    expect(result.message).toBe("The vault is locked.");
+  });
+});
+
+describe("TON exit codes", () => {
+  it("should name failed compute phases", () => {
+    const result = humanizeErrorDetailed({
+      description: {
+        type: "generic",
+        computePhase: { type: "vm", success: false, exitCode: 9 },
+        aborted: true,
+      },
+    });
+    expect(result.matchedKey).toBe("TON: CellUnderflow");
+    expect(result.tonFailure).toEqual({
+      phase: "compute",
+      exitCode: 9,
+      errorName: "CellUnderflow",
+    });
+  });
+
+  it("should read the action phase when compute succeeded", () => {
+    const result = humanizeErrorDetailed({
+      description: {
+        computePhase: { type: "vm", success: true, exitCode: 0 },
+        actionPhase: { success: false, noFunds: true, resultCode: 37 },
+      },
+    });
+    expect(result.matchedKey).toBe("TON: NotEnoughTon");
+    expect(result.category).toBe("insufficient-funds");
+    expect(result.tonFailure?.phase).toBe("action");
+  });
+
+  it("should read toncenter transactions and Jetton wallet codes", () => {
+    const result = humanizeErrorDetailed({
+      hash: "abc",
+      description: {
+        compute_ph: { skipped: false, success: false, exit_code: 706 },
+        aborted: true,
+      },
+    });
+    expect(result.matchedKey).toBe("TON: NotEnoughJettons");
+    expect(result.category).toBe("insufficient-funds");
+  });
+
+  it("should report skipped compute phases", () => {
+    const result = humanizeErrorDetailed({
+      compute_phase: { skipped: true, skip_reason: "cskip_no_gas" },
+    });
+    expect(result.matchedKey).toBe("TON: NoGas");
+    expect(result.tonFailure?.skipReason).toBe("no-gas");
+  });
+
+  it("should match contract-specific exit codes as custom entries", async () => {
+    const error = {
+      description: {
+        computePhase: { type: "vm", success: false, exitCode: 4242 },
+      },
+    };
+    expect(humanizeErrorDetailed(error).rawMessage).toBe("TON exit code 4242");
+
+    const humanizer = new Web3ErrorHumanizer({
+      customErrors: { "TON exit code 4242": "The pool is paused." },
+    });
+    const result = await humanizer.humanizeDetailed(error);
+    expect(result.message).toBe("The pool is paused.");
+  });
+});
+
+describe("Protocol packs", () => {
+  const acmePack: ErrorPack = {
+    name: "acme-dex",
+    description: "Acme DEX router errors.",
+    sections: [
+      {
+        name: "Acme Router Errors",
+        category: "slippage",
+        entries: {
+          "AcmeRouter: PRICE_DRIFT":
+            "The Acme price drifted. Refresh the quote.",
+        },
+      },
+    ],
+  };
+
+  it("should split the bundled dictionary into uniquely named packs", () => {
+    expect(new Set(ERROR_PACK_NAMES).size).toBe(ERROR_PACKS.length);
+    expect(ERROR_PACK_NAMES).toEqual(
+      expect.arrayContaining([
+        "uniswap-v3",
+        "aave-v3",
+        "solana",
+        "tron",
+        "erc4337",
+      ])
+    );
+    expect(ERROR_PACKS.flatMap((pack) => pack.sections)).toEqual(
+      ERROR_SECTIONS
+    );
+  });
+
+  it("should report which pack matched", () => {
+    expect(humanizeErrorDetailed(new Error("UniswapV2: K")).pack).toBe(
+      "uniswap-v2"
+    );
+    expect(humanizeErrorDetailed(new Error("BlockhashNotFound")).pack).toBe(
+      "solana"
+    );
+    expect(
+      humanizeErrorDetailed(new Error("Qx96 unknown thing")).pack
+    ).toBeUndefined();
+  });
+
+  it("should only match active packs", async () => {
+    const evmOnly = new Web3ErrorHumanizer({ packs: ["common", "evm"] });
+    const result = await evmOnly.humanizeDetailed(
+      new Error("BlockhashNotFound")
+    );
+    expect(result.source).toBe("fallback");
+  });
+
+  it("should stop another ecosystem's entry from winning", async () => {
+    expect(humanizeErrorDetailed(new Error("REVERT")).pack).toBe("tron");
+    const noTron = new Web3ErrorHumanizer({ disabledPacks: ["tron"] });
+    const result = await noTron.humanizeDetailed(new Error("REVERT"));
+    expect(result.pack).toBe("evm");
+    expect(result.matchedKey).toBe("revert");
+  });
+
+  it("should only rewrite codes into keys of active packs", async () => {
+    const noEvm = new Web3ErrorHumanizer({ disabledPacks: ["evm"] });
+    const result = await noEvm.humanizeDetailed({
+      code: 4001,
+      message: "User rejected the request.",
+    });
+    expect(result.matchedKey).toBe("User rejected");
+    expect(result.pack).toBe("common");
+  });
+
+  it("should keep the message of Solana failures without the solana pack", async () => {
+    const TOKEN = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+    const noSolana = new Web3ErrorHumanizer({ disabledPacks: ["solana"] });
+    const result = await noSolana.humanizeDetailed(
+      Object.assign(new Error("Transfer failed: insufficient funds"), {
+        logs: [
+          `Program ${TOKEN} invoke [1]`,
+          `Program ${TOKEN} failed: custom program error: 0x1`,
+        ],
+      })
+    );
+    expect(result.rawMessage).toBe("Transfer failed: insufficient funds");
+    expect(result.solanaFailure?.programError).toBe("InsufficientFunds");
+  });
+
+  it("should accept third-party packs", async () => {
+    const humanizer = new Web3ErrorHumanizer({
+      packs: [...ERROR_PACKS, acmePack],
+    });
+    const result = await humanizer.humanizeDetailed(
+      new Error("AcmeRouter: PRICE_DRIFT")
+    );
+    expect(result.pack).toBe("acme-dex");
+    expect(result.category).toBe("slippage");
+    expect(result.actions).toEqual(["INCREASE_SLIPPAGE", "REFRESH_QUOTE"]);
+  });
+
+  it("should report custom additions as the custom pack", async () => {
+    const humanizer = new Web3ErrorHumanizer({
+      packs: ["common"],
+      customErrors: { "Qx97 tenant error": "Tenant wording." },
+    });
+    expect(
+      (await humanizer.humanizeDetailed(new Error("Qx97 tenant error"))).pack
+    ).toBe("custom");
+  });
+
+  it("should reject unknown pack names", () => {
+    expect(() => new Web3ErrorHumanizer({ packs: ["uniswap-v9"] })).toThrow(
+      /Unknown error pack "uniswap-v9"/
+    );
+  });
+});
+
+describe("Context interpolation", () => {
+  const context: SwapContext = {
+    fromToken: "USDC",
+    toToken: "PEPE",
+    amount: "1000",
+    slippage: "0.5%",
+    network: "Arbitrum",
+  };
+
+  it("should fill placeholders from the context", () => {
+    expect(
+      humanizeErrorDetailed(new Error("insufficient balance"), { context })
+        .message
+    ).toBe("Your USDC balance is too low for this swap.");
+    expect(
+      humanizeErrorLocal(new Error("INSUFFICIENT_OUTPUT_AMOUNT"), { context })
+    ).toBe(
+      "Price moved more than your 0.5% slippage tolerance. Try increasing it."
+    );
+    expect(humanizeError({ code: 4901 }, { context })).toBe(
+      "Wallet is connected to a different network. Please switch to Arbitrum."
+    );
+  });
+
+  it("should use the generic message without a context", () => {
+    expect(
+      humanizeErrorDetailed(new Error("insufficient balance")).message
+    ).toBe("Your token balance is too low for this swap.");
+  });
+
+  it("should use the generic message when a placeholder is missing", () => {
+    expect(
+      humanizeErrorLocal(new Error("INSUFFICIENT_LIQUIDITY"), {
+        context: { fromToken: "USDC", toToken: "" },
+      })
+    ).toBe("Not enough liquidity for this trade. Try a smaller amount.");
+    expect(
+      humanizeErrorLocal(new Error("INSUFFICIENT_LIQUIDITY"), {
+        context: { fromToken: "USDC", toToken: "PEPE" },
+      })
+    ).toBe(
+      "Not enough USDC/PEPE liquidity for this trade. Try a smaller amount."
+    );
+  });
+
+  it("should interpolate in the class API", async () => {
+    const humanizer = new Web3ErrorHumanizer();
+    expect(
+      await humanizer.humanize(new Error("exceeds balance"), context)
+    ).toBe("1000 USDC exceeds your available balance.");
+  });
+
+  it("should use translated templates for translated messages", () => {
+    registerLocale("es", {
+      messages: {
+        "ERC20: insufficient allowance": "Aprueba el token antes de continuar.",
+      },
+      templates: {
+        "ERC20: insufficient allowance":
+          "Aprueba {fromToken} antes de continuar.",
+      },
+    });
+    expect(
+      humanizeErrorLocal(new Error("ERC20: insufficient allowance"), {
+        locale: "es",
+        context,
+      })
+    ).toBe("Aprueba USDC antes de continuar.");
+    expect(
+      humanizeErrorLocal(new Error("ERC20: insufficient allowance"), {
+        locale: "es",
+      })
+    ).toBe("Aprueba el token antes de continuar.");
+  });
+});
+
+describe("Localization", () => {
+  registerLocale("tr", {
+    fallbackMessage: "İşlem başarısız oldu. Lütfen tekrar deneyin.",
+    messages: {
+      "User rejected": "İsteği cüzdanınızda reddettiniz.",
+    },
+  });
+  registerLocale("es", {
+    messages: {
+      "insufficient balance": "Tu saldo de tokens es demasiado bajo.",
+    },
+  });
+
+  beforeEach(() => {
+    mockCreate.mockClear();
+  });
+
+  it("should translate local matches", () => {
+    const result = humanizeErrorDetailed(new Error("User rejected"), {
+      locale: "tr",
+    });
+    expect(result.message).toBe("İsteği cüzdanınızda reddettiniz.");
+    expect(result.matchedKey).toBe("User rejected");
+    expect(
+      humanizeError(new Error("insufficient balance"), { locale: "es" })
+    ).toBe("Tu saldo de tokens es demasiado bajo.");
+  });
+
+  it("should fall back from region to base language", () => {
+    expect(
+      humanizeErrorLocal(new Error("User rejected"), { locale: "tr-TR" })
+    ).toBe("İsteği cüzdanınızda reddettiniz.");
+    expect(
+      humanizeErrorLocal(new Error("User rejected"), { locale: "TR_tr" })
+    ).toBe("İsteği cüzdanınızda reddettiniz.");
+  });
+
+  it("should fall back to English when a key is untranslated", () => {
+    expect(
+      humanizeErrorLocal(new Error("User rejected"), { locale: "es" })
+    ).toBe(LOCAL_ERROR_MAP["User rejected"]);
+    expect(
+      humanizeErrorLocal(new Error("User rejected"), { locale: "fr" })
+    ).toBe(LOCAL_ERROR_MAP["User rejected"]);
+  });
+
+  it("should translate the default fallback message", () => {
+    expect(
+      humanizeError(new Error("Qx90 unknown thing"), { locale: "tr" })
+    ).toBe("İşlem başarısız oldu. Lütfen tekrar deneyin.");
+    expect(
+      humanizeError(new Error("Qx90 unknown thing"), {
+        locale: "tr",
+        fallbackMessage: "Custom",
+      })
+    ).toBe("Custom");
+    expect(
+      humanizeError(new Error("Qx90 unknown thing"), { locale: "es" })
+    ).toBe("Transaction failed. Please try again.");
+  });
+
+  it("should merge packs registered for the same locale", () => {
+    registerLocale("es", { fallbackMessage: "La transacción falló." });
+    expect(
+      humanizeErrorLocal(new Error("insufficient balance"), { locale: "es" })
+    ).toBe("Tu saldo de tokens es demasiado bajo.");
+    expect(
+      humanizeError(new Error("Qx91 unknown thing"), { locale: "es" })
+    ).toBe("La transacción falló.");
+  });
+
+  it("should localize class results", async () => {
+    const humanizer = new Web3ErrorHumanizer({ locale: "tr" });
+    expect(await humanizer.humanize(new Error("User rejected"))).toBe(
+      "İsteği cüzdanınızda reddettiniz."
+    );
+    expect(await humanizer.humanize(new Error("Qx92 unknown thing"))).toBe(
+      "İşlem başarısız oldu. Lütfen tekrar deneyin."
+    );
+  });
+
+  it("should ask the AI to reply in the requested language", async () => {
+    const humanizer = new Web3ErrorHumanizer({
+      openaiApiKey: "test-key",
+      locale: "zh-CN",
+    });
+    await humanizer.humanize(new Error("Qx93 unknown thing"));
+    const prompt = mockCreate.mock.calls[0][0].messages[0].content;
+    expect(prompt).toContain("Write the message in Chinese (China)");
+  });
+
+  it("should not mention a language without a locale", async () => {
+    const humanizer = new Web3ErrorHumanizer({ openaiApiKey: "test-key" });
+    await humanizer.humanize(new Error("Qx94 unknown thing"));
+    const prompt = mockCreate.mock.calls[0][0].messages[0].content;
+    expect(prompt).not.toContain("Write the message in");
+  });
+});
+
+describe("LOCAL_ERROR_MAP", () => {
+  it("should contain all expected error keys", () => {
+    const expectedKeys = [
+      "INSUFFICIENT_FUNDS",
+      "ACTION_REJECTED",
+      "EXPIRED",
+      "INSUFFICIENT_OUTPUT_AMOUNT",
+      "TRANSFER_FROM_FAILED",
+      "Pancake: K",
+      "UniswapV2: K",
+      "UniswapV3: SPL",
+      "insufficient allowance",
+      "out of gas",
+      "4001",
+      "-32603",
+      "NETWORK_ERROR",
+      "Session expired",
+    ];
+
+    expectedKeys.forEach((key) => {
+      expect(LOCAL_ERROR_MAP).toHaveProperty(key);
+      expect(typeof LOCAL_ERROR_MAP[key]).toBe("string");
+    });
+  });
+
+  it("should have user-friendly messages (no technical jargon)", () => {
+    const technicalTerms = ["0x", "nonce", "wei", "gwei", "calldata"];
+
+    Object.values(LOCAL_ERROR_MAP).forEach((message) => {
+      technicalTerms.forEach((term) => {
+        expect(message.toLowerCase()).not.toContain(term.toLowerCase());
+      });
+    });
+  });
+
+  it("should be derived from the categorized sections", () => {
+    const sectionKeys = ERROR_SECTIONS.flatMap((section) =>
+      Object.entries(section.entries)
+        .filter(([, entry]) => typeof entry === "string" || !entry.pattern)
+        .map(([key]) => key)
+    );
+    expect(Object.keys(LOCAL_ERROR_MAP).sort()).toEqual(sectionKeys.sort());
+  });
+
+  it("should tag every section and entry with a known category", () => {
+    ERROR_SECTIONS.forEach((section) => {
+      expect(ERROR_CATEGORIES).toContain(section.category);
+      Object.values(section.entries).forEach((entry) => {
+        if (typeof entry !== "string" && entry.category) {
+          expect(ERROR_CATEGORIES).toContain(entry.category);
+        }
+      });
+    });
+  });
+
+  it("should have at least 200 error patterns", () => {
+    const count = Object.keys(LOCAL_ERROR_MAP).length;
+    expect(count).toBeGreaterThanOrEqual(200);
+  });
+});
+
+describe("getLocalErrorCount", () => {
+  it("should return the correct count of error patterns", () => {
+    const count = getLocalErrorCount();
+    expect(count).toBe(Object.keys(LOCAL_ERROR_MAP).length);
+    expect(count).toBeGreaterThanOrEqual(200);
+  });
+});
+
+describe("hasLocalPattern", () => {
+  it("should return true for existing patterns", () => {
+    expect(hasLocalPattern("INSUFFICIENT_FUNDS")).toBe(true);
+    expect(hasLocalPattern("ACTION_REJECTED")).toBe(true);
+    expect(hasLocalPattern("4001")).toBe(true);
+  });
+
+  it("should return false for non-existing patterns", () => {
+    expect(hasLocalPattern("RANDOM_NONEXISTENT_ERROR")).toBe(false);
+    expect(hasLocalPattern("")).toBe(false);
+  });
+
+  it("should leave out the keys of regex entries", () => {
+    const key = "gas estimation failed: insufficient allowance";
+    expect(LOCAL_ERROR_MAP).not.toHaveProperty(key);
+    expect(hasLocalPattern(key)).toBe(false);
   });
 });
 
@@ -620,5 +2836,8 @@ describe("getLocalPatterns", () => {
     expect(patterns.length).toBe(getLocalErrorCount());
     expect(patterns).toContain("INSUFFICIENT_FUNDS");
     expect(patterns).toContain("ACTION_REJECTED");
+    expect(patterns).not.toContain(
+      "gas estimation failed: insufficient allowance"
+    );
   });
 });
@@ -1,11 +1,465 @@
 import { OpenAI } from "openai";
+import type { Abi } from "viem";
+import { ERROR_CATEGORIES, SUGGESTED_ACTIONS } from "./data/categories";
 import { DEFAULT_FALLBACK_MESSAGE, LOCAL_ERROR_MAP } from "./data/error-map";
-import type { HumanizedResult, HumanizerConfig, SwapContext } from "./types";
-import { extractRawMessage } from "./utils/extraction";
-import { matchLocalErrorDetailed } from "./utils/matching";
+import type {
+  AnchorIdl,
+  DecodedRevert,
+  ErrorIndex,
+  ErrorLayer,
+  HumanizeOptions,
+  HumanizedResult,
+  HumanizerConfig,
+  LocalMatch,
+  MoveAbort,
+  SolanaFailure,
+  SwapContext,
+  TonFailure,
+} from "./types";
+import {
+  type AIResponse,
+  parseAIResponse,
+  toAIResponse,
+} from "./utils/ai-response";
+import {
+  decodeRevert,
+  formatDecodedRevert,
+  getDecodedMatchKey,
+} from "./utils/decoding";
+import { isEthersError } from "./utils/ethers";
+import { extractErrorChain, extractRawMessage } from "./utils/extraction";
+import { getGasRecommendation } from "./utils/gas";
+import { fillTemplate } from "./utils/interpolation";
+import {
+  getLanguageName,
+  translateFallbackMessage,
+  translateMessage,
+  translateTemplate,
+} from "./utils/locales";
+import {
+  DEFAULT_ERROR_INDEX,
+  buildErrorIndex,
+  customizePacks,
+  matchLocalErrorCandidates,
+  matchLocalErrorDetailed,
+  selectPacks,
+} from "./utils/matching";
+import { getMoveMatchKey, parseMoveAbortError } from "./utils/move";
+import { getNonceDiagnosis } from "./utils/nonce";
+import { getBalanceShortfall } from "./utils/shortfall";
+import { getSolanaMatchKey, parseSolanaFailure } from "./utils/solana";
+import { parseTonFailure } from "./utils/ton";
+import { getWeb3jsCodeName, isWeb3jsError } from "./utils/web3js";
 
-export { LOCAL_ERROR_MAP } from "./data/error-map";
+export { ANCHOR_ERRORS } from "./data/anchor-errors";
+export { ERROR_CATEGORIES, SUGGESTED_ACTIONS } from "./data/categories";
+export {
+  ERROR_PACKS,
+  ERROR_PACK_NAMES,
+  ERROR_SECTIONS,
+  LOCAL_ERROR_MAP,
+} from "./data/error-map";
+export { MOVE_ABORT_CODES } from "./data/move-abort-codes";
+export { NATIVE_CURRENCIES } from "./data/native-currencies";
+export { SOLANA_PROGRAMS } from "./data/solana-programs";
+export {
+  TON_ACTION_RESULT_CODES,
+  TON_EXIT_CODES,
+} from "./data/ton-exit-codes";
 export * from "./types";
+export { registerLocale } from "./utils/locales";
+export { registerMoveAbortCodes } from "./utils/move";
+export {
+  lookupErrorSelector,
+  registerErrorSignatures,
+} from "./utils/selectors";
+
+interface MatchSettings {
+  abis?: Abi[];
+  anchorIdls?: Record<string, AnchorIdl>;
+  index?: ErrorIndex;
+  fuzzyThreshold?: number;
+  matchErrorChain?: boolean;
+}
+
+interface LocalResolution {
+  rawMessage: string;
+  decodedError?: DecodedRevert;
+  errorChain: ErrorLayer[];
+  ethersCode?: string;
+  solanaFailure?: SolanaFailure;
+  moveAbort?: MoveAbort;
+  tonFailure?: TonFailure;
+  /**
+   * The Anchor IDL `msg` the extracted message is, shown when AI can't
+   * word it and nothing else matched
+   */
+  programMessage?: string;
+  match: LocalMatch | null;
+}
+
+function joinErrorChain(errorChain: ErrorLayer[]): string {
+  return errorChain.map((layer) => layer.message).join(": ");
+}
+
+/**
+ * Messages to match for an error: just the extracted message, or with
+ * `matchErrorChain` every layer from the root cause outwards, followed by
+ * the extracted message (which may be a bare code).
+ */
+function getMatchTexts(
+  rawMessage: string,
+  errorChain: ErrorLayer[],
+  matchErrorChain = false
+): string[] {
+  return matchErrorChain
+    ? [...errorChain.map((layer) => layer.message).reverse(), rawMessage]
+    : [rawMessage];
+}
+
+/**
+ * Packs an ethers or web3.js code may match in. Other chains' wallets
+ * use some of the same names (TonConnect's UNKNOWN_ERROR).
+ */
+const LIBRARY_CODE_PACKS = new Set(["common", "evm", "web3js", "custom"]);
+
+/**
+ * Matches for the ethers or web3.js code, the last resort for node
+ * messages the dictionary doesn't know
+ */
+function matchLibraryCode(
+  libraryCode: string | undefined,
+  index: ErrorIndex,
+  fuzzyThreshold?: number
+): LocalMatch[] {
+  if (!libraryCode) {
+    return [];
+  }
+  return matchLocalErrorCandidates(libraryCode, index, fuzzyThreshold).filter(
+    ({ pack }) => LIBRARY_CODE_PACKS.has(pack)
+  );
+}
+
+/**
+ * The ethers code ("CALL_EXCEPTION") or web3.js code name ("ERR_TX_SIGNING")
+ */
+function getLibraryCode(error: unknown): string | undefined {
+  if (isEthersError(error)) {
+    return error.code;
+  }
+  return isWeb3jsError(error) ? getWeb3jsCodeName(error) : undefined;
+}
+
+/**
+ * Match the extracted message, or with `matchErrorChain` the error chain:
+ * a pattern entry matching the whole chain wins first, so entries can
+ * combine a root cause with its outer context; then the innermost layer
+ * with a match, as wrappers tend to be generic ("Internal JSON-RPC error").
+ */
+function matchTexts(
+  rawMessage: string,
+  errorChain: ErrorLayer[],
+  libraryCode: string | undefined,
+  {
+    index = DEFAULT_ERROR_INDEX,
+    fuzzyThreshold,
+    matchErrorChain,
+  }: MatchSettings
+): LocalMatch | null {
+  if (matchErrorChain && errorChain.length > 1) {
+    const combined = matchLocalErrorDetailed(
+      joinErrorChain(errorChain),
+      index,
+      fuzzyThreshold
+    );
+    if (combined?.matchType === "pattern") {
+      return combined;
+    }
+  }
+
+  for (const text of getMatchTexts(rawMessage, errorChain, matchErrorChain)) {
+    const match = matchLocalErrorDetailed(text, index, fuzzyThreshold);
+    if (match) {
+      return match;
+    }
+  }
+  return matchLibraryCode(libraryCode, index, fuzzyThreshold)[0] ?? null;
+}
+
+/**
+ * The extracted message, or the match key of a Solana failure decoded
+ * with the caller's Anchor IDLs or of a Move abort in the caller's index
+ */
+function extractMessage(
+  error: unknown,
+  solanaFailure?: SolanaFailure,
+  moveAbort?: MoveAbort,
+  index?: ErrorIndex
+): string {
+  return (
+    (solanaFailure && getSolanaMatchKey(solanaFailure, index)) ||
+    (moveAbort && getMoveMatchKey(moveAbort, index)) ||
+    extractRawMessage(error, index)
+  );
+}
+
+/**
+ * Whether the extracted message is the `msg` of an Anchor IDL error. The
+ * program's author wrote it for users already, and matching it against
+ * generic keys ("exceeded") would misclassify it, so it is left to AI or
+ * shown as is.
+ */
+function isIdlMessage(
+  rawMessage: string,
+  solanaFailure: SolanaFailure | undefined
+): boolean {
+  return (
+    solanaFailure?.programMessage !== undefined &&
+    rawMessage === solanaFailure.programMessage
+  );
+}
+
+/**
+ * Extract, decode and match an error against the local dictionary.
+ * A decoded revert (custom error name, reason string or panic code)
+ * takes precedence over the raw message unless the raw message matches
+ * with higher confidence.
+ */
+function resolveLocal(
+  error: unknown,
+  settings: MatchSettings = {}
+): LocalResolution {
+  const {
+    abis,
+    anchorIdls,
+    index = DEFAULT_ERROR_INDEX,
+    fuzzyThreshold,
+  } = settings;
+  const solanaFailure = parseSolanaFailure(error, anchorIdls);
+  const moveAbort = parseMoveAbortError(error);
+  const tonFailure = parseTonFailure(error);
+  const rawMessage = extractMessage(error, solanaFailure, moveAbort, index);
+  const errorChain = extractErrorChain(error);
+  const ethersCode = isEthersError(error) ? error.code : undefined;
+  const decodedError = decodeRevert(error, abis) ?? undefined;
+
+  const decodedMatch = decodedError
+    ? matchLocalErrorDetailed(
+        getDecodedMatchKey(decodedError),
+        index,
+        fuzzyThreshold
+      )
+    : null;
+  const programMessage = isIdlMessage(rawMessage, solanaFailure)
+    ? rawMessage
+    : undefined;
+  const rawMatch = programMessage
+    ? null
+    : matchTexts(rawMessage, errorChain, getLibraryCode(error), settings);
+  const match =
+    decodedMatch &&
+    (!rawMatch || decodedMatch.confidence >= rawMatch.confidence)
+      ? decodedMatch
+      : rawMatch;
+
+  return {
+    rawMessage,
+    decodedError,
+    errorChain,
+    ethersCode,
+    solanaFailure,
+    moveAbort,
+    tonFailure,
+    programMessage,
+    match,
+  };
+}
+
+/**
+ * All local candidates for an error, ranked by confidence. Candidates for
+ * the decoded revert come before raw-message candidates with equal scores.
+ */
+function resolveCandidates(
+  error: unknown,
+  {
+    abis,
+    anchorIdls,
+    index = DEFAULT_ERROR_INDEX,
+    fuzzyThreshold,
+    matchErrorChain,
+  }: MatchSettings = {}
+): LocalMatch[] {
+  const decodedError = decodeRevert(error, abis);
+  const solanaFailure = parseSolanaFailure(error, anchorIdls);
+  const rawMessage = extractMessage(
+    error,
+    solanaFailure,
+    parseMoveAbortError(error),
+    index
+  );
+  if (isIdlMessage(rawMessage, solanaFailure)) {
+    return [];
+  }
+  const errorChain = extractErrorChain(error);
+  const texts = [
+    ...(decodedError ? [getDecodedMatchKey(decodedError)] : []),
+    ...(matchErrorChain && errorChain.length > 1
+      ? [joinErrorChain(errorChain)]
+      : []),
+    ...getMatchTexts(rawMessage, errorChain, matchErrorChain),
+  ];
+  const candidates = [
+    ...texts.flatMap((text) =>
+      matchLocalErrorCandidates(text, index, fuzzyThreshold)
+    ),
+    ...matchLibraryCode(getLibraryCode(error), index, fuzzyThreshold),
+  ];
+
+  const seen = new Set<string>();
+  return candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .filter(({ matchedKey }) => {
+      if (seen.has(matchedKey)) {
+        return false;
+      }
+      seen.add(matchedKey);
+      return true;
+    });
+}
+
+/**
+ * The message for a match in the requested locale (or English), using the
+ * context-aware template when the context and captured details fill all
+ * of its placeholders.
+ * Translated messages only use translated templates, never English ones.
+ */
+function localizeMatch(
+  match: LocalMatch,
+  locale?: string,
+  context?: SwapContext
+): string {
+  const details = getTemplateDetails(match, context);
+  const translated = translateMessage(match.matchedKey, locale);
+  if (translated) {
+    const template = translateTemplate(match.matchedKey, locale);
+    return (template && fillTemplate(template, context, details)) || translated;
+  }
+  return (
+    (match.template && fillTemplate(match.template, context, details)) ||
+    match.message
+  );
+}
+
+/**
+ * Captured details plus values derived from them: `{shortfall}` and
+ * `{nativeSymbol}` for insufficient-funds errors with have/want amounts.
+ */
+function getTemplateDetails(
+  match: LocalMatch,
+  context?: SwapContext
+): Record<string, string> | undefined {
+  const shortfall = getBalanceShortfall(match.details, context?.chainId);
+  if (!shortfall) {
+    return match.details;
+  }
+  return {
+    ...match.details,
+    shortfall: shortfall.formatted,
+    ...(shortfall.symbol && { nativeSymbol: shortfall.symbol }),
+  };
+}
+
+/**
+ * A caller-supplied fallback wins over the locale's, then English
+ */
+function resolveFallback(fallbackMessage?: string, locale?: string): string {
+  return (
+    fallbackMessage ||
+    translateFallbackMessage(locale) ||
+    DEFAULT_FALLBACK_MESSAGE
+  );
+}
+
+function localResult(
+  match: LocalMatch,
+  {
+    rawMessage,
+    decodedError,
+    errorChain,
+    ethersCode,
+    solanaFailure,
+    moveAbort,
+    tonFailure,
+  }: LocalResolution,
+  locale?: string,
+  context?: SwapContext
+): HumanizedResult {
+  return {
+    message: localizeMatch(match, locale, context),
+    source: "local",
+    category: match.category,
+    retryable: match.retryable,
+    severity: match.severity,
+    actions: match.actions,
+    matchedKey: match.matchedKey,
+    matchType: match.matchType,
+    confidence: match.confidence,
+    pack: match.pack,
+    details: match.details,
+    shortfall: getBalanceShortfall(match.details, context?.chainId),
+    gasRecommendation: getGasRecommendation(match.details),
+    nonceDiagnosis: getNonceDiagnosis(match.details),
+    rawMessage,
+    decodedError,
+    errorChain,
+    ethersCode,
+    solanaFailure,
+    moveAbort,
+    tonFailure,
+  };
+}
+
+function fallbackResult(
+  message: string,
+  resolution?: LocalResolution
+): HumanizedResult {
+  return {
+    message,
+    source: "fallback",
+    category: "unknown",
+    retryable: false,
+    severity: "error",
+    actions: [],
+    rawMessage: resolution?.rawMessage ?? "Error extraction failed",
+    decodedError: resolution?.decodedError,
+    errorChain: resolution?.errorChain,
+    ethersCode: resolution?.ethersCode,
+    solanaFailure: resolution?.solanaFailure,
+    moveAbort: resolution?.moveAbort,
+    tonFailure: resolution?.tonFailure,
+  };
+}
+
+/**
+ * The program's own Anchor IDL `msg`, for program errors the dictionary
+ * doesn't know
+ */
+function programMessageResult(
+  programMessage: string,
+  resolution: LocalResolution
+): HumanizedResult {
+  return {
+    ...fallbackResult(programMessage, resolution),
+    source: "local",
+    category: "contract-revert",
+  };
+}
+
+function toOptions(fallbackOrOptions?: string | HumanizeOptions) {
+  return typeof fallbackOrOptions === "string"
+    ? { fallbackMessage: fallbackOrOptions }
+    : (fallbackOrOptions ?? {});
+}
 
 /**
  * Humanize error using ONLY the local dictionary (no API key needed).
@@ -19,11 +473,15 @@ export * from "./types";
  *   showError("Transaction failed");
  * }
  */
-export function humanizeErrorLocal(error: unknown): string | null {
+export function humanizeErrorLocal(
+  error: unknown,
+  options: HumanizeOptions = {}
+): string | null {
   try {
-    const rawMessage = extractRawMessage(error);
-    const match = matchLocalErrorDetailed(rawMessage);
-    return match ? match.message : null;
+    const { match, programMessage } = resolveLocal(error, options);
+    return match
+      ? localizeMatch(match, options.locale, options.context)
+      : (programMessage ?? null);
   } catch (err) {
     // If extraction/matching fails, return null
     if (process.env.NODE_ENV === "development") {
@@ -43,10 +501,12 @@ export function humanizeErrorLocal(error: unknown): string | null {
  */
 export function humanizeError(
   error: unknown,
-  fallback: string = DEFAULT_FALLBACK_MESSAGE
+  fallbackOrOptions: string | HumanizeOptions = DEFAULT_FALLBACK_MESSAGE
 ): string {
+  const options = toOptions(fallbackOrOptions);
+  const fallback = resolveFallback(options.fallbackMessage, options.locale);
   try {
-    return humanizeErrorLocal(error) ?? fallback;
+    return humanizeErrorLocal(error, options) ?? fallback;
   } catch (err) {
     // If extraction fails, return fallback
     if (process.env.NODE_ENV === "development") {
@@ -59,39 +519,67 @@ export function humanizeError(
 /**
  * Humanize an error and return metadata about the result.
  * Does NOT call AI (local only); falls back to provided message when no match.
+ *
+ * @example
+ * const result = humanizeErrorDetailed(error, { abis: [routerAbi] });
+ * result.decodedError?.name; // "InsufficientBalance"
+ *
+ * @example
+ * humanizeErrorDetailed(error, { context: { fromToken: "USDC" } }).message;
+ * // "Your USDC balance is too low for this swap."
  */
 export function humanizeErrorDetailed(
   error: unknown,
-  fallback: string = DEFAULT_FALLBACK_MESSAGE
+  fallbackOrOptions: string | HumanizeOptions = DEFAULT_FALLBACK_MESSAGE
 ): HumanizedResult {
+  const options = toOptions(fallbackOrOptions);
+  const fallback = resolveFallback(options.fallbackMessage, options.locale);
   try {
-    const rawMessage = extractRawMessage(error);
-    const match = matchLocalErrorDetailed(rawMessage);
+    const resolution = resolveLocal(error, options);
 
-    if (match) {
-      return {
-        message: match.message,
-        source: "local",
-        matchedKey: match.matchedKey,
-        rawMessage,
-      };
+    if (resolution.match) {
+      return localResult(
+        resolution.match,
+        resolution,
+        options.locale,
+        options.context
+      );
+    }
+    if (resolution.programMessage) {
+      return programMessageResult(resolution.programMessage, resolution);
     }
 
-    return {
-      message: fallback,
-      source: "fallback",
-      rawMessage,
-    };
+    return fallbackResult(fallback, resolution);
   } catch (err) {
     // If extraction/matching fails, return fallback result
     if (process.env.NODE_ENV === "development") {
       console.warn("Error humanization failed:", err);
     }
-    return {
-      message: fallback,
-      source: "fallback",
-      rawMessage: "Error extraction failed",
-    };
+    return fallbackResult(fallback);
+  }
+}
+
+/**
+ * Every local dictionary match for an error, best first, with its match
+ * type and confidence. The first candidate is what `humanizeErrorDetailed`
+ * would use, unless `matchErrorChain` picks a root cause over a more
+ * confident outer match.
+ *
+ * @example
+ * const [best, ...others] = getLocalMatchCandidates(error);
+ * best?.confidence; // 1 for exact matches
+ */
+export function getLocalMatchCandidates(
+  error: unknown,
+  options: HumanizeOptions = {}
+): LocalMatch[] {
+  try {
+    return resolveCandidates(error, options);
+  } catch (err) {
+    if (process.env.NODE_ENV === "development") {
+      console.warn("Error humanization failed:", err);
+    }
+    return [];
   }
 }
 
@@ -113,7 +601,10 @@ export function humanizeErrorDetailed(
 export class Web3ErrorHumanizer {
   private openai: OpenAI | null = null;
   private model: string;
-  private fallbackMessage: string;
+  private customFallbackMessage?: string;
+  private locale?: string;
+  private settings: MatchSettings;
+  private minConfidence: number;
 
   constructor(config: HumanizerConfig = {}) {
     // Only initialize OpenAI if API key is provided
@@ -124,7 +615,34 @@ export class Web3ErrorHumanizer {
       });
     }
     this.model = config.aiModel || "gpt-4o-mini";
-    this.fallbackMessage = config.fallbackMessage || DEFAULT_FALLBACK_MESSAGE;
+    this.customFallbackMessage = config.fallbackMessage;
+    this.locale = config.locale;
+    this.settings = {
+      abis: config.abis ?? [],
+      anchorIdls: config.anchorIdls,
+      // Customized instances get their own index; the rest share the default
+      index:
+        config.packs ||
+        config.disabledPacks ||
+        config.customErrors ||
+        config.disabledErrors
+          ? buildErrorIndex(
+              customizePacks(
+                selectPacks(config.packs, config.disabledPacks),
+                config.customErrors,
+                config.disabledErrors
+              )
+            )
+          : DEFAULT_ERROR_INDEX,
+      fuzzyThreshold: config.fuzzyThreshold,
+      matchErrorChain: config.matchErrorChain,
+    };
+    this.minConfidence = config.minConfidence ?? 0;
+  }
+
+  // Resolved per call so locale packs registered later still apply
+  private get fallbackMessage(): string {
+    return resolveFallback(this.customFallbackMessage, this.locale);
   }
 
   /**
@@ -134,51 +652,84 @@ export class Web3ErrorHumanizer {
     return this.openai !== null;
   }
 
+  /**
+   * Every local dictionary match for an error, best first, using this
+   * instance's packs and custom entries.
+   */
+  getMatchCandidates(error: unknown): LocalMatch[] {
+    try {
+      return resolveCandidates(error, this.settings);
+    } catch (err) {
+      if (process.env.NODE_ENV === "development") {
+        console.warn("Error humanization failed:", err);
+      }
+      return [];
+    }
+  }
+
   /**
    * Humanize an error with metadata.
    * Local dictionary first, then AI (if configured), else fallback.
+   * With AI configured, local matches below `minConfidence` go to AI.
    */
   async humanizeDetailed(
     error: unknown,
     context?: SwapContext
   ): Promise<HumanizedResult> {
     try {
-      const rawMessage = extractRawMessage(error);
+      const resolution = resolveLocal(error, this.settings);
+      const {
+        rawMessage,
+        decodedError,
+        errorChain,
+        ethersCode,
+        solanaFailure,
+        moveAbort,
+        tonFailure,
+        programMessage,
+        match,
+      } = resolution;
 
-      const localMatch = matchLocalErrorDetailed(rawMessage);
-      if (localMatch) {
-        return {
-          message: localMatch.message,
-          matchedKey: localMatch.matchedKey,
-          source: "local",
-          rawMessage,
-        };
+      if (match && (match.confidence >= this.minConfidence || !this.openai)) {
+        return localResult(match, resolution, this.locale, context);
       }
 
       if (this.openai) {
-        const message = await this.askAI(rawMessage, context);
+        // The whole chain gives the model the outer context too
+        const message =
+          this.settings.matchErrorChain && errorChain.length > 1
+            ? joinErrorChain(errorChain)
+            : rawMessage;
+        const aiInput = decodedError
+          ? `${message} (${formatDecodedRevert(decodedError)})`
+          : message;
+        const response = await this.askAI(aiInput, context);
+        if (!response && programMessage) {
+          return programMessageResult(programMessage, resolution);
+        }
         return {
-          message,
+          ...(response ?? this.aiFallback),
           source: "ai",
           rawMessage,
+          decodedError,
+          errorChain,
+          ethersCode,
+          solanaFailure,
+          moveAbort,
+          tonFailure,
         };
       }
 
-      return {
-        message: this.fallbackMessage,
-        source: "fallback",
-        rawMessage,
-      };
+      if (programMessage) {
+        return programMessageResult(programMessage, resolution);
+      }
+      return fallbackResult(this.fallbackMessage, resolution);
     } catch (err) {
       // If extraction/matching fails, return fallback result
       if (process.env.NODE_ENV === "development") {
         console.warn("Error humanization failed:", err);
       }
-      return {
-        message: this.fallbackMessage,
-        source: "fallback",
-        rawMessage: "Error extraction failed",
-      };
+      return fallbackResult(this.fallbackMessage);
     }
   }
 
@@ -192,15 +743,27 @@ export class Web3ErrorHumanizer {
     return result.message;
   }
 
+  private get aiFallback(): AIResponse {
+    return toAIResponse(this.fallbackMessage);
+  }
+
+  /**
+   * The model's response, or null when it can't be reached or its reply
+   * is unusable
+   */
   private async askAI(
     rawError: string,
     context?: SwapContext,
     retries = 2
-  ): Promise<string> {
+  ): Promise<AIResponse | null> {
     if (!this.openai) {
-      return this.fallbackMessage;
+      return null;
     }
 
+    const languageRule = this.locale
+      ? `\n- Write the message in ${getLanguageName(this.locale)}. Keep the JSON keys and enum values in English.`
+      : "";
+
     const prompt = `You are a Web3 UX expert. A user's DEX swap failed with a technical error.
 Convert it into a friendly, helpful 1-sentence explanation.
 
@@ -211,9 +774,10 @@ RULES:
 - Do NOT use technical jargon like "reverted", "gas limit", "0x...", or "nonce".
 - Explain WHY it happened (e.g. low liquidity, price volatility, lack of funds).
 - Tell the user exactly what to do next.
-- Keep it under 20 words.
+- Keep it under 20 words.${languageRule}
 
-Humanized Message:`;
+Reply with JSON only, in this shape:
+{"message": "<humanized message>", "category": "<one of: ${ERROR_CATEGORIES.join(", ")}>", "retryable": <true if retrying the same request automatically may succeed>, "severity": "<info if the user cancelled, warning if recoverable, error if fatal>", "actions": [<zero or more of: ${SUGGESTED_ACTIONS.join(", ")}>]}`;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
@@ -221,15 +785,13 @@ Humanized Message:`;
           model: this.model,
           messages: [{ role: "user", content: prompt }],
           temperature: 0,
-          max_tokens: 100, // Limit response length
+          // Room for the five-field JSON reply, which a cut-off can't parse
+          max_tokens: 300,
+          response_format: { type: "json_object" },
         });
 
-        const content = response.choices[0]?.message?.content?.trim();
-        if (content) {
-          return content;
-        }
-
-        return this.fallbackMessage;
+        const content = response.choices[0]?.message?.content;
+        return (content && parseAIResponse(content)) || null;
       } catch (error) {
         const isLastAttempt = attempt === retries;
         const isRateLimit =
@@ -244,18 +806,18 @@ Humanized Message:`;
           continue;
         }
 
-        // For other errors or last attempt, return fallback
+        // For other errors or last attempt, give up
         if (isLastAttempt) {
           // Only log in development to avoid console noise in production
           if (process.env.NODE_ENV === "development") {
             console.warn("AI humanization failed:", error);
           }
-          return this.fallbackMessage;
+          return null;
         }
       }
     }
 
-    return this.fallbackMessage;
+    return null;
   }
 }
 
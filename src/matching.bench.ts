@@ -0,0 +1,111 @@
+import { bench, describe } from "vitest";
+import { ERROR_SECTIONS } from "./data/error-map";
+import type { LocalErrorEntry } from "./types";
+import { findFirstPattern } from "./utils/aho-corasick";
+import { DEFAULT_ERROR_INDEX, matchLocalErrorDetailed } from "./utils/matching";
+import { normalize } from "./utils/normalization";
+
+// Indexer-style log lines: mostly unmatched, a few real errors
+const UNMATCHED = Array.from(
+  { length: 200 },
+  (_, i) =>
+    `block ${19_000_000 + i} processed: 143 logs, 12 transfers from 0x${i.toString(16).padStart(40, "0")} in ${i % 97}ms`
+);
+const MATCHED = ERROR_SECTIONS.flatMap((section) =>
+  Object.keys(section.entries)
+).map((key) => `Error: ${key} (request id ${key.length})`);
+
+const rawMessages = [...UNMATCHED, ...MATCHED.slice(0, 50)];
+const messages = rawMessages.map(normalize);
+
+// The pre-automaton step 3: one `includes` per dictionary key
+function linearScan(normalized: string): number {
+  return DEFAULT_ERROR_INDEX.substrings.findIndex((entry) =>
+    normalized.includes(entry.keyLower)
+  );
+}
+
+const WORD_CHAR = /\w/;
+
+function isOnBoundaries(key: string, text: string, start: number): boolean {
+  const end = start + key.length;
+  if (WORD_CHAR.test(key[0]) && start > 0 && WORD_CHAR.test(text[start - 1])) {
+    return false;
+  }
+  return !(
+    WORD_CHAR.test(key[key.length - 1]) &&
+    end < text.length &&
+    WORD_CHAR.test(text[end])
+  );
+}
+
+function isTokenMatch(entry: LocalErrorEntry, normalized: string): boolean {
+  for (
+    let start = normalized.indexOf(entry.keyLower);
+    start !== -1;
+    start = normalized.indexOf(entry.keyLower, start + 1)
+  ) {
+    if (
+      entry.isSubstring ||
+      isOnBoundaries(entry.keyLower, normalized, start)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// `matchLocalErrorDetailed` with the substring tier as a longest-first
+// scan over every key, including boundary checks and scoring
+function linearMatch(rawMessage: string) {
+  const normalized = normalize(rawMessage);
+  const exact =
+    DEFAULT_ERROR_INDEX.codes.get(normalized) ??
+    DEFAULT_ERROR_INDEX.exact.get(normalized);
+  if (exact) {
+    return { matchedKey: exact.key, confidence: 1 };
+  }
+  const pattern = DEFAULT_ERROR_INDEX.patterns.find((entry) =>
+    entry.pattern?.test(rawMessage)
+  );
+  if (pattern) {
+    return { matchedKey: pattern.key, confidence: 0.95 };
+  }
+  const entry = DEFAULT_ERROR_INDEX.substrings.find((candidate) =>
+    isTokenMatch(candidate, normalized)
+  );
+  return entry
+    ? {
+        matchedKey: entry.key,
+        confidence: 0.5 + 0.45 * (entry.keyLower.length / normalized.length),
+      }
+    : null;
+}
+
+describe("substring matching", () => {
+  bench("linear scan", () => {
+    for (const message of messages) {
+      linearScan(message);
+    }
+  });
+
+  bench("aho-corasick", () => {
+    for (const message of messages) {
+      findFirstPattern(DEFAULT_ERROR_INDEX.automaton, message);
+    }
+  });
+});
+
+describe("matchLocalErrorDetailed", () => {
+  bench("linear baseline", () => {
+    for (const message of rawMessages) {
+      linearMatch(message);
+    }
+  });
+
+  bench("matchLocalErrorDetailed", () => {
+    for (const message of rawMessages) {
+      matchLocalErrorDetailed(message);
+    }
+  });
+});
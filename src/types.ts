@@ -1,4 +1,5 @@
 import { OpenAI } from "openai";
+import type { Abi } from "viem";
 
 export interface HumanizerConfig {
   /**
@@ -14,6 +15,112 @@ export interface HumanizerConfig {
    * Default: "Transaction failed. Please try again."
    */
   fallbackMessage?: string;
+  /**
+   * Contract ABIs used to decode custom errors from raw revert data.
+   * Decoded error names are matched against the local dictionary.
+   */
+  abis?: Abi[];
+  /**
+   * Anchor IDLs keyed by program ID, used to decode the custom error codes
+   * (6000+) of failing Solana programs into error names and messages.
+   */
+  anchorIdls?: Record<string, AnchorIdl>;
+  /**
+   * BCP 47 locale for messages (e.g. "tr", "es", "zh-CN").
+   * Uses packs loaded with `registerLocale`, falling back to English;
+   * AI replies are requested in this language.
+   */
+  locale?: string;
+  /**
+   * Extra dictionary entries for this instance, keyed like `LOCAL_ERROR_MAP`.
+   * Keys that already exist override the bundled wording; new keys win
+   * ties against bundled ones of the same length.
+   */
+  customErrors?: Record<string, string | ErrorDefinition>;
+  /**
+   * Dictionary keys this instance should never match
+   */
+  disabledErrors?: string[];
+  /**
+   * Active packs: names of bundled packs (see `ERROR_PACK_NAMES`) and/or
+   * third-party `ErrorPack` objects. Defaults to every bundled pack.
+   */
+  packs?: (string | ErrorPack)[];
+  /**
+   * Names of packs to switch off
+   */
+  disabledPacks?: string[];
+  /**
+   * Local matches below this confidence (0-1) are escalated to AI when it
+   * is configured. Default: 0 (always trust local matches)
+   */
+  minConfidence?: number;
+  /**
+   * Enables fuzzy matching: messages no key matches literally are compared
+   * to dictionary phrases by token-set similarity, tolerating small typos.
+   * Matches need at least this similarity (0-1, e.g. 0.8). Default: off
+   */
+  fuzzyThreshold?: number;
+  /**
+   * Match against every layer of the error chain (see `errorChain`) instead
+   * of the first extracted message: patterns can span layers, and the
+   * innermost layer wins ties. Default: false
+   */
+  matchErrorChain?: boolean;
+}
+
+/**
+ * Options for the standalone (local-only) humanize functions.
+ */
+export interface HumanizeOptions {
+  /**
+   * Fallback message when no local match is found.
+   * Default: "Transaction failed. Please try again."
+   */
+  fallbackMessage?: string;
+  /**
+   * Contract ABIs used to decode custom errors from raw revert data.
+   */
+  abis?: Abi[];
+  /**
+   * Anchor IDLs keyed by program ID, used to decode Solana program errors.
+   */
+  anchorIdls?: Record<string, AnchorIdl>;
+  /**
+   * Locale for messages, falling back to English when untranslated.
+   */
+  locale?: string;
+  /**
+   * Swap details used to fill placeholders in dictionary messages.
+   */
+  context?: SwapContext;
+  /**
+   * Minimum similarity (0-1) for fuzzy matches. Default: off
+   */
+  fuzzyThreshold?: number;
+  /**
+   * Match against every layer of the error chain. Default: false
+   */
+  matchErrorChain?: boolean;
+}
+
+/**
+ * Translations for one locale.
+ */
+export interface LocalePack {
+  /**
+   * Translated messages keyed by dictionary key
+   */
+  messages?: Record<string, string>;
+  /**
+   * Translated message templates keyed by dictionary key
+   * (see `ErrorDefinition.template`)
+   */
+  templates?: Record<string, string>;
+  /**
+   * Translated default fallback message
+   */
+  fallbackMessage?: string;
 }
 
 export interface SwapContext {
@@ -22,10 +129,372 @@ export interface SwapContext {
   amount?: string;
   slippage?: string;
   network?: string;
+  /**
+   * EVM chain ID, used to format amounts in the chain's native token
+   */
+  chainId?: number;
+}
+
+/**
+ * Suggested transaction settings for a retry. Fee and gas amounts are
+ * base-unit integers (wei / gas units) as decimal strings.
+ */
+export interface GasRecommendation {
+  /**
+   * Minimum max fee per gas likely to be accepted
+   */
+  maxFeePerGas?: string;
+  /**
+   * Minimum priority fee (tip) per gas likely to be accepted
+   */
+  maxPriorityFeePerGas?: string;
+  /**
+   * Minimum gas limit
+   */
+  gasLimit?: string;
+  /**
+   * Minimum fee increase over the pending transaction, in percent
+   */
+  bumpPercent?: number;
+}
+
+/**
+ * - stuck-pending: the nonce is already taken, usually by a pending
+ *   transaction the wallet hasn't seen confirm
+ * - gap: the nonce skips ahead, leaving earlier nonces unused
+ * - duplicate: the node already has this exact transaction
+ */
+export type NonceIssue = "stuck-pending" | "gap" | "duplicate";
+
+/**
+ * Nonce state reported by the node, for automated recovery
+ * (e.g. resubmitting with `expectedNonce`).
+ */
+export interface NonceDiagnosis {
+  issue: NonceIssue;
+  /**
+   * The account's next usable nonce, when the node reported it
+   */
+  expectedNonce?: number;
+  /**
+   * The nonce the transaction was sent with, when the node reported it
+   */
+  providedNonce?: number;
+  /**
+   * How many nonces are missing before this transaction (gaps only)
+   */
+  gapSize?: number;
+}
+
+/**
+ * A custom error declared in an Anchor IDL (`#[error_code]`)
+ */
+export interface AnchorIdlError {
+  code: number;
+  name: string;
+  msg?: string;
+}
+
+/**
+ * The part of an Anchor IDL (JSON) the humanizer reads
+ */
+export interface AnchorIdl {
+  errors?: readonly AnchorIdlError[];
+}
+
+/**
+ * A well-known Solana program and its custom error names, keyed by
+ * error number.
+ */
+export interface SolanaProgram {
+  name: string;
+  errors: Record<number, string>;
+}
+
+/**
+ * Where and why a Solana transaction failed, read from its
+ * `TransactionError` (`{ InstructionError: [2, { Custom: 6001 }] }`),
+ * program logs and error message.
+ */
+export interface SolanaFailure {
+  /**
+   * Index of the failing instruction
+   */
+  instructionIndex?: number;
+  /**
+   * TransactionError or InstructionError variant (e.g. "Custom",
+   * "InsufficientFundsForFee")
+   */
+  error?: string;
+  /**
+   * Custom program error number (e.g. 6001, logged as 0x1771)
+   */
+  customCode?: number;
+  /**
+   * Address of the failing program, from the logs
+   */
+  programId?: string;
+  /**
+   * Name of the failing program, when it is well known (e.g. "Jupiter")
+   */
+  program?: string;
+  /**
+   * Name of the custom error, for well-known programs, Anchor IDLs and
+   * Anchor framework errors (e.g. "SlippageToleranceExceeded")
+   */
+  programError?: string;
+  /**
+   * The custom error's `msg` from the program's Anchor IDL
+   */
+  programMessage?: string;
+  /**
+   * The failing program's own error message from its logs
+   */
+  logMessage?: string;
+}
+
+/**
+ * Aptos canonical error categories (`std::error`), stored in the high
+ * byte of an abort code
+ */
+export type MoveAbortCategory =
+  | "INVALID_ARGUMENT"
+  | "OUT_OF_RANGE"
+  | "INVALID_STATE"
+  | "UNAUTHENTICATED"
+  | "PERMISSION_DENIED"
+  | "NOT_FOUND"
+  | "ABORTED"
+  | "ALREADY_EXISTS"
+  | "RESOURCE_EXHAUSTED"
+  | "CANCELLED"
+  | "INTERNAL"
+  | "NOT_IMPLEMENTED"
+  | "UNAVAILABLE";
+
+/**
+ * A Move abort on Sui or Aptos, parsed from messages like
+ * `MoveAbort(MoveLocation { module: 0x2::balance, ... }, 2)` or
+ * `Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006)`.
+ */
+export interface MoveAbort {
+  /**
+   * Address of the aborting module, without leading zeros (e.g. "0x1")
+   */
+  moduleAddress: string;
+  /**
+   * Name of the aborting module (e.g. "coin")
+   */
+  moduleName: string;
+  abortCode: number;
+  /**
+   * Canonical category, for Aptos-style codes (`category << 16 | reason`)
+   */
+  category?: MoveAbortCategory;
+  /**
+   * The module-specific part of a canonical code (its low 16 bits)
+   */
+  reason?: number;
+  /**
+   * Name of the abort constant, from the message or the registered
+   * abort codes (e.g. "EINSUFFICIENT_BALANCE")
+   */
+  errorName?: string;
+  /**
+   * The aborting function, when Sui reports it
+   */
+  functionName?: string;
+}
+
+/**
+ * Why TON skipped the compute phase: the account has no code, its state
+ * doesn't match, or it couldn't pay for gas
+ */
+export type TonComputeSkipReason = "no-state" | "bad-state" | "no-gas";
+
+/**
+ * The failing phase of a TON transaction, read from its description
+ */
+export interface TonFailure {
+  phase: "compute" | "action";
+  /**
+   * Compute phase exit code or action phase result code
+   */
+  exitCode?: number;
+  /**
+   * Set when the compute phase was skipped
+   */
+  skipReason?: TonComputeSkipReason;
+  /**
+   * Name of a well-known code (e.g. "CellUnderflow", "NotEnoughTon")
+   */
+  errorName?: string;
+}
+
+/**
+ * A chain's native gas token.
+ */
+export interface NativeCurrency {
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * How much native balance a transaction was missing, parsed from
+ * node errors like "insufficient funds for gas * price + value: ...
+ * have 1200000000000000 want 5000000000000000". Amounts are base-unit
+ * integers (wei) as decimal strings.
+ */
+export interface BalanceShortfall {
+  have: string;
+  want: string;
+  missing: string;
+  /**
+   * `missing` in native units, rounded up (e.g. "0.0038")
+   */
+  formatted: string;
+  /**
+   * Native token symbol, when the chain is known (see `SwapContext.chainId`)
+   */
+  symbol?: string;
 }
 
 export type HumanizeSource = "local" | "ai" | "fallback";
 
+/**
+ * Shape a layer of an error chain came from:
+ * - viem: a viem `BaseError`
+ * - ethers: an object with an ethers-style string code ("CALL_EXCEPTION")
+ * - web3js: a web3.js v4 error ("ContractExecutionError")
+ * - wallet: an EIP-1193 provider error (codes 4000-4999)
+ * - rpc: a JSON-RPC error (other numeric codes)
+ * - generic: any other error, object or string
+ */
+export type ErrorLayerSource =
+  | "viem"
+  | "ethers"
+  | "web3js"
+  | "rpc"
+  | "wallet"
+  | "generic";
+
+/**
+ * One wrapper or cause in an error chain.
+ */
+export interface ErrorLayer {
+  source: ErrorLayerSource;
+  message: string;
+  code?: number | string;
+  /**
+   * Class name for `Error` instances (e.g. "EstimateGasExecutionError")
+   */
+  name?: string;
+}
+
+export type ErrorCategory =
+  | "user-rejected"
+  | "insufficient-funds"
+  | "allowance"
+  | "slippage"
+  | "liquidity"
+  | "deadline"
+  | "gas"
+  | "nonce"
+  | "network"
+  | "rpc"
+  | "rate-limit"
+  | "chain-mismatch"
+  | "wallet-locked"
+  | "wallet-connection"
+  | "signature"
+  | "permission"
+  | "invalid-input"
+  | "contract-revert"
+  | "unknown";
+
+/**
+ * How serious an error is for the user:
+ * - info: nothing went wrong (e.g. the user cancelled)
+ * - warning: recoverable (retry, adjust settings, reconnect)
+ * - error: fatal for this transaction
+ */
+export type ErrorSeverity = "info" | "warning" | "error";
+
+/**
+ * A next step the UI can offer as a one-click button.
+ */
+export type SuggestedAction =
+  | "INCREASE_SLIPPAGE"
+  | "APPROVE_TOKEN"
+  | "SWITCH_NETWORK"
+  | "ADD_NATIVE_FUNDS"
+  | "RECONNECT_WALLET"
+  | "REDUCE_AMOUNT"
+  | "REFRESH_QUOTE"
+  | "SPEED_UP"
+  | "RETRY";
+
+/**
+ * A dictionary entry with metadata beyond its message.
+ */
+export interface ErrorDefinition {
+  message: string;
+  /**
+   * Context-aware variant of the message with `SwapContext` placeholders,
+   * e.g. "Your {fromToken} balance is too low". Used only when every
+   * placeholder has a value; otherwise `message` is returned.
+   */
+  template?: string;
+  /**
+   * Overrides the category of the enclosing section
+   */
+  category?: ErrorCategory;
+  /**
+   * Overrides the retryability implied by the category
+   */
+  retryable?: boolean;
+  /**
+   * Overrides the severity implied by the category
+   */
+  severity?: ErrorSeverity;
+  /**
+   * Overrides the suggested actions implied by the category
+   */
+  actions?: SuggestedAction[];
+  /**
+   * Match the key anywhere, even inside a longer token. By default a key
+   * only matches on word boundaries, so "UniswapV3: L" doesn't match
+   * "UniswapV3: LS".
+   */
+  substring?: boolean;
+  /**
+   * Match the raw message against this regular expression instead of the
+   * key. Named capture groups are returned as `HumanizedResult.details` and
+   * fill `{placeholders}` in `template`, e.g.
+   * `/nonce too low: next nonce (?<expectedNonce>\d+)/`
+   */
+  pattern?: RegExp;
+  /**
+   * Fixed details reported with every match of this entry; captured
+   * values take precedence (e.g. `{ bumpPercent: "10" }`)
+   */
+  details?: Record<string, string>;
+}
+
+/**
+ * A named group of dictionary entries sharing a default category.
+ */
+export interface ErrorSection {
+  name: string;
+  category: ErrorCategory;
+  /**
+   * Default for `ErrorDefinition.substring` (e.g. hex selectors, which
+   * prefix longer revert payloads)
+   */
+  substring?: boolean;
+  entries: Record<string, string | ErrorDefinition>;
+}
+
 export interface HumanizedResult {
   /**
    * Human-readable message
@@ -35,20 +504,231 @@ export interface HumanizedResult {
    * Where the message came from
    */
   source: HumanizeSource;
+  /**
+   * What kind of failure this is ("unknown" when it couldn't be classified)
+   */
+  category: ErrorCategory;
+  /**
+   * Whether retrying the same request automatically may succeed
+   */
+  retryable: boolean;
+  /**
+   * How serious the error is (info for user cancellation, warning for
+   * recoverable, error for fatal)
+   */
+  severity: ErrorSeverity;
+  /**
+   * Suggested next steps, most relevant first (empty when there is nothing
+   * the user can do beyond reading the message)
+   */
+  actions: SuggestedAction[];
   /**
    * The matched local error key (when source === "local")
    */
   matchedKey?: string;
+  /**
+   * How the key matched (when source === "local")
+   */
+  matchType?: MatchType;
+  /**
+   * Confidence of the local match, from 0 to 1 (when source === "local")
+   */
+  confidence?: number;
+  /**
+   * Name of the pack the matched key came from (when source === "local"),
+   * "custom" for `customErrors` additions
+   */
+  pack?: string;
+  /**
+   * Values captured from the message by a pattern entry
+   * (e.g. `{ expectedNonce: "12", providedNonce: "9" }`)
+   */
+  details?: Record<string, string>;
+  /**
+   * Missing native balance, for insufficient-funds errors that report
+   * the account's balance and the transaction cost
+   */
+  shortfall?: BalanceShortfall;
+  /**
+   * Fee or gas limit values likely to succeed, for gas errors that report
+   * the numbers involved (e.g. to offer "retry with suggested fee")
+   */
+  gasRecommendation?: GasRecommendation;
+  /**
+   * What went wrong with the transaction's nonce, for nonce errors
+   */
+  nonceDiagnosis?: NonceDiagnosis;
   /**
    * The extracted raw error message
    */
   rawMessage: string;
+  /**
+   * The decoded custom error, when revert data could be decoded
+   */
+  decodedError?: DecodedRevert;
+  /**
+   * Every layer of the error, outermost first (for debug logging)
+   */
+  errorChain?: ErrorLayer[];
+  /**
+   * The ethers v5/v6 error code (e.g. "CALL_EXCEPTION"), for ethers errors
+   */
+  ethersCode?: string;
+  /**
+   * Where and why a Solana transaction failed, for Solana errors
+   */
+  solanaFailure?: SolanaFailure;
+  /**
+   * The module and abort code, for Sui and Aptos Move aborts
+   */
+  moveAbort?: MoveAbort;
+  /**
+   * The failing phase and exit code, for TON transaction results
+   */
+  tonFailure?: TonFailure;
+}
+
+export interface DecodedRevert {
+  /**
+   * Error name, e.g. "InsufficientBalance"
+   */
+  name: string;
+  /**
+   * Canonical signature, e.g. "InsufficientBalance(uint256,uint256)"
+   */
+  signature: string;
+  /**
+   * 4-byte error selector
+   */
+  selector: string;
+  /**
+   * Decoded arguments keyed by parameter name (or position when unnamed)
+   */
+  args: Record<string, unknown>;
+  /**
+   * Revert reason string, for `Error(string)` payloads
+   */
+  reason?: string;
+  /**
+   * Panic code formatted as in the dictionary (e.g. "0x11"), for `Panic(uint256)` payloads
+   */
+  panicCode?: string;
+}
+
+/**
+ * How a dictionary key matched:
+ * - code: the message is a numeric error code
+ * - exact: the message is the key
+ * - boundary: the key occurs in the message on token boundaries
+ * - substring: a `substring` key occurs inside a longer token
+ * - pattern: the entry's regular expression matches the message
+ * - fuzzy: the message is worded like the key (opt-in, see `fuzzyThreshold`)
+ */
+export type MatchType =
+  | "code"
+  | "exact"
+  | "pattern"
+  | "boundary"
+  | "substring"
+  | "fuzzy";
+
+export interface LocalMatch {
+  matchedKey: string;
+  matchType: MatchType;
+  /**
+   * 1 for code and exact matches; lower the less of the message the key
+   * covers. Pattern matches score 0.95, fuzzy matches at most 0.5
+   */
+  confidence: number;
+  message: string;
+  template?: string;
+  /**
+   * Named capture groups of a pattern match
+   */
+  details?: Record<string, string>;
+  category: ErrorCategory;
+  retryable: boolean;
+  severity: ErrorSeverity;
+  actions: SuggestedAction[];
+  pack: string;
 }
 
 export type LocalErrorEntry = {
   key: string;
   keyLower: string;
   message: string;
+  template?: string;
+  category: ErrorCategory;
+  retryable: boolean;
+  severity: ErrorSeverity;
+  actions: SuggestedAction[];
+  pack: string;
   isCode: boolean;
   isShortToken: boolean;
+  isSubstring: boolean;
+  pattern?: RegExp;
+  details?: Record<string, string>;
 };
+
+/**
+ * Lookup structures pre-computed from a set of dictionary sections.
+ */
+export interface ErrorIndex {
+  exact: Map<string, LocalErrorEntry>;
+  codes: Map<string, LocalErrorEntry>;
+  /**
+   * Non-code entries for substring matching, longest key first
+   */
+  substrings: LocalErrorEntry[];
+  /**
+   * Entries matched by regular expression, in dictionary order
+   */
+  patterns: LocalErrorEntry[];
+  /**
+   * Aho-Corasick automaton over `substrings` keys (pattern i = substrings[i])
+   */
+  automaton: SubstringAutomaton;
+  /**
+   * Entries eligible for fuzzy matching, in `substrings` order
+   */
+  phrases: FuzzyPhrase[];
+}
+
+/**
+ * A dictionary key split into the tokens compared by fuzzy matching.
+ */
+export interface FuzzyPhrase {
+  entry: LocalErrorEntry;
+  tokens: string[];
+}
+
+/**
+ * Multi-pattern matcher state, stored as parallel arrays indexed by state.
+ */
+export interface SubstringAutomaton {
+  transitions: Map<string, number>[];
+  fail: number[];
+  /**
+   * Pattern indexes ending exactly at each state
+   */
+  outputs: number[][];
+  /**
+   * Nearest failure-chain state with outputs (-1 when none)
+   */
+  dictionary: number[];
+  lengths: number[];
+}
+
+/**
+ * A named, independently switchable group of dictionary sections, usually
+ * one protocol or ecosystem (e.g. "uniswap-v3", "solana"). Third parties can
+ * publish their own packs and pass them in `HumanizerConfig.packs`.
+ */
+export interface ErrorPack {
+  /**
+   * Unique kebab-case name, reported as `HumanizedResult.pack`
+   */
+  name: string;
+  description?: string;
+  sections: ErrorSection[];
+}
@@ -0,0 +1,135 @@
+import type { SubstringAutomaton } from "../types";
+
+/**
+ * Build an Aho-Corasick automaton over the given patterns.
+ * Pattern order is significant: when several patterns occur in a text,
+ * `findFirstPattern` reports the one with the lowest index.
+ */
+export function buildAutomaton(
+  patterns: readonly string[]
+): SubstringAutomaton {
+  const transitions: Map<string, number>[] = [new Map()];
+  const outputs: number[][] = [[]];
+
+  // 1. Trie of all patterns
+  patterns.forEach((pattern, patternIndex) => {
+    let state = 0;
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      let next = transitions[state].get(char);
+      if (next === undefined) {
+        next = transitions.length;
+        transitions.push(new Map());
+        outputs.push([]);
+        transitions[state].set(char, next);
+      }
+      state = next;
+    }
+    outputs[state].push(patternIndex);
+  });
+
+  // 2. Failure links (breadth-first), plus dictionary links that jump
+  // straight to the next suffix state with patterns ending there
+  const fail: number[] = new Array(transitions.length).fill(0);
+  const dictionary: number[] = new Array(transitions.length).fill(-1);
+  const queue: number[] = [...transitions[0].values()];
+  for (let head = 0; head < queue.length; head++) {
+    const state = queue[head];
+    for (const [char, next] of transitions[state]) {
+      let fallback = fail[state];
+      while (fallback !== 0 && !transitions[fallback].has(char)) {
+        fallback = fail[fallback];
+      }
+      const target = transitions[fallback].get(char);
+      fail[next] = target !== undefined && target !== next ? target : 0;
+      dictionary[next] =
+        outputs[fail[next]].length > 0 ? fail[next] : dictionary[fail[next]];
+      queue.push(next);
+    }
+  }
+
+  return {
+    transitions,
+    fail,
+    outputs,
+    dictionary,
+    lengths: patterns.map((pattern) => pattern.length),
+  };
+}
+
+/**
+ * Walk the text once, reporting every pattern occurrence
+ * (`start` inclusive, `end` exclusive).
+ */
+function scan(
+  automaton: SubstringAutomaton,
+  text: string,
+  visit: (patternIndex: number, start: number, end: number) => void
+): void {
+  const { transitions, fail, outputs, dictionary, lengths } = automaton;
+  let state = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    let next = transitions[state].get(char);
+    while (next === undefined && state !== 0) {
+      state = fail[state];
+      next = transitions[state].get(char);
+    }
+    state = next ?? 0;
+
+    const end = i + 1;
+    for (
+      let match = outputs[state].length > 0 ? state : dictionary[state];
+      match !== -1;
+      match = dictionary[match]
+    ) {
+      for (const patternIndex of outputs[match]) {
+        visit(patternIndex, end - lengths[patternIndex], end);
+      }
+    }
+  }
+}
+
+/**
+ * Scan the text once and return the lowest index of any pattern it
+ * contains, or -1 when none occurs. `accept` can reject individual
+ * occurrences.
+ */
+export function findFirstPattern(
+  automaton: SubstringAutomaton,
+  text: string,
+  accept?: (patternIndex: number, start: number, end: number) => boolean
+): number {
+  let found = -1;
+  scan(automaton, text, (patternIndex, start, end) => {
+    if (
+      (found === -1 || patternIndex < found) &&
+      (!accept || accept(patternIndex, start, end))
+    ) {
+      found = patternIndex;
+    }
+  });
+  return found;
+}
+
+/**
+ * Scan the text once and return the indexes of every pattern it contains,
+ * in ascending order. `accept` works as in `findFirstPattern`.
+ */
+export function findAllPatterns(
+  automaton: SubstringAutomaton,
+  text: string,
+  accept?: (patternIndex: number, start: number, end: number) => boolean
+): number[] {
+  const found = new Set<number>();
+  scan(automaton, text, (patternIndex, start, end) => {
+    if (
+      !found.has(patternIndex) &&
+      (!accept || accept(patternIndex, start, end))
+    ) {
+      found.add(patternIndex);
+    }
+  });
+  return [...found].sort((a, b) => a - b);
+}
@@ -0,0 +1,97 @@
+import {
+  CATEGORY_TRAITS,
+  isErrorCategory,
+  isErrorSeverity,
+  isSuggestedAction,
+} from "../data/categories";
+import type { ErrorCategory, ErrorSeverity, SuggestedAction } from "../types";
+
+export interface AIResponse {
+  message: string;
+  category: ErrorCategory;
+  retryable: boolean;
+  severity: ErrorSeverity;
+  actions: SuggestedAction[];
+}
+
+/**
+ * Build a response for a category, using its default traits.
+ */
+export function toAIResponse(
+  message: string,
+  category: ErrorCategory = "unknown"
+): AIResponse {
+  const traits = CATEGORY_TRAITS[category];
+  return { message, category, ...traits, actions: [...traits.actions] };
+}
+
+// A complete "message" string in a reply that isn't valid JSON
+const MESSAGE_FIELD = /"message"\s*:\s*("(?:[^"\\]|\\.)*")/;
+
+/**
+ * The `message` of a JSON reply cut off by the token limit, if the
+ * message itself came through whole
+ */
+function salvageMessage(text: string): string | undefined {
+  const field = text.match(MESSAGE_FIELD)?.[1];
+  if (!field) {
+    return undefined;
+  }
+  try {
+    const message: unknown = JSON.parse(field);
+    return typeof message === "string" && message.trim()
+      ? message.trim()
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse the model's reply. Expects JSON, but tolerates code fences and
+ * plain-text replies (treated as the message with an unknown category).
+ * Broken JSON is never shown: its `message` is salvaged if complete,
+ * otherwise the reply is rejected.
+ */
+export function parseAIResponse(content: string): AIResponse | null {
+  const text = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "")
+    .trim();
+  if (!text) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (parsed && typeof parsed === "object") {
+      const { message, category, retryable, severity, actions } =
+        parsed as Record<string, unknown>;
+      if (typeof message === "string" && message.trim()) {
+        const response = toAIResponse(
+          message.trim(),
+          isErrorCategory(category) ? category : "unknown"
+        );
+        if (typeof retryable === "boolean") {
+          response.retryable = retryable;
+        }
+        if (isErrorSeverity(severity)) {
+          response.severity = severity;
+        }
+        if (Array.isArray(actions)) {
+          response.actions = actions.filter(isSuggestedAction);
+        }
+        return response;
+      }
+    }
+  } catch {
+    // Not JSON - use the reply as-is unless it was meant to be JSON
+  }
+
+  if (text.startsWith("{")) {
+    const message = salvageMessage(text);
+    return message ? toAIResponse(message) : null;
+  }
+  return toAIResponse(text);
+}
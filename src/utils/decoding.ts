@@ -0,0 +1,279 @@
+import {
+  type Abi,
+  BaseError,
+  ContractFunctionRevertedError,
+  type Hex,
+  RawContractError,
+  decodeErrorResult,
+  slice,
+  toFunctionSelector,
+} from "viem";
+import type { DecodedRevert } from "../types";
+import { getEthersRevert, isEthersError } from "./ethers";
+import {
+  type AbiError,
+  formatErrorSignature,
+  lookupErrorSelector,
+} from "./selectors";
+import { findWeb3jsRevert } from "./web3js";
+
+// A 4-byte selector followed by zero or more 32-byte ABI words
+const REVERT_DATA_PATTERN = /^0x[0-9a-fA-F]{8}(?:[0-9a-fA-F]{64})*$/;
+const EMBEDDED_REVERT_DATA_PATTERN =
+  /0x[0-9a-fA-F]{8}(?:[0-9a-fA-F]{64})*(?![0-9a-fA-F])/;
+
+const MAX_DEPTH = 8;
+
+function isRevertData(value: unknown): value is Hex {
+  return typeof value === "string" && REVERT_DATA_PATTERN.test(value);
+}
+
+/**
+ * Find ABI-encoded revert data anywhere in an error object.
+ * Checks viem errors, ethers `data`, RPC `error.data`, web3.js `innerError`
+ * and nested causes.
+ */
+export function findRevertData(error: unknown, depth = 0): Hex | undefined {
+  if (error === null || error === undefined || depth > MAX_DEPTH) {
+    return undefined;
+  }
+
+  if (error instanceof BaseError) {
+    const revertError = error.walk(
+      (err) =>
+        (err instanceof ContractFunctionRevertedError && !!err.raw) ||
+        err instanceof RawContractError
+    );
+    if (revertError instanceof ContractFunctionRevertedError) {
+      return revertError.raw;
+    }
+    if (revertError instanceof RawContractError) {
+      const data = revertError.data;
+      const hex = typeof data === "object" ? data?.data : data;
+      if (isRevertData(hex)) {
+        return hex;
+      }
+    }
+  }
+
+  if (typeof error === "string") {
+    return isRevertData(error) ? error : undefined;
+  }
+
+  if (typeof error !== "object") {
+    return undefined;
+  }
+
+  const err = error as Record<string, unknown>;
+
+  // Direct payloads first (ethers `data`, RPC `error.data`)
+  if (isRevertData(err.data)) {
+    return err.data;
+  }
+
+  for (const key of [
+    "data",
+    "error",
+    "info",
+    "innerError",
+    "cause",
+    "originalError",
+  ]) {
+    const nested = err[key];
+    if (nested && typeof nested === "object") {
+      const found = findRevertData(nested, depth + 1);
+      if (found) {
+        return found;
+      }
+    }
+  }
+
+  // Last resort: hex payload embedded in a message string
+  for (const key of ["message", "reason", "details"]) {
+    const value = err[key];
+    if (typeof value === "string") {
+      const embedded = value.match(EMBEDDED_REVERT_DATA_PATTERN);
+      if (embedded) {
+        return embedded[0] as Hex;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function toNamedArgs(
+  abiItem: AbiError,
+  args: readonly unknown[] | undefined
+): Record<string, unknown> {
+  const named: Record<string, unknown> = {};
+  if (!args) {
+    return named;
+  }
+  args.forEach((value, index) => {
+    const name = abiItem.inputs[index]?.name || String(index);
+    named[name] = value;
+  });
+  return named;
+}
+
+/**
+ * Format a Solidity panic code the way the dictionary keys it (e.g. "0x11")
+ */
+function formatPanicCode(code: unknown): string | undefined {
+  if (typeof code !== "bigint" && typeof code !== "number") {
+    return undefined;
+  }
+  return `0x${code.toString(16).padStart(2, "0")}`;
+}
+
+function toDecodedRevert(
+  abiItem: AbiError,
+  args: readonly unknown[] | undefined
+): DecodedRevert {
+  const signature = formatErrorSignature(abiItem);
+  const decoded: DecodedRevert = {
+    name: abiItem.name,
+    signature,
+    selector: toFunctionSelector(signature),
+    args: toNamedArgs(abiItem, args),
+  };
+
+  if (signature === "Error(string)" && typeof args?.[0] === "string") {
+    decoded.reason = args[0];
+  } else if (signature === "Panic(uint256)") {
+    decoded.panicCode = formatPanicCode(args?.[0]);
+  }
+
+  return decoded;
+}
+
+/**
+ * A revert ethers or web3.js already decoded with the contract ABI
+ */
+interface LibraryRevert {
+  name: string;
+  signature: string;
+  args: Record<string, unknown>;
+}
+
+function findLibraryRevert(error: unknown): LibraryRevert | undefined {
+  if (isEthersError(error)) {
+    const revert = getEthersRevert(error);
+    // ethers drops parameter names, so arguments are keyed by position
+    return (
+      revert && {
+        ...revert,
+        args: Object.fromEntries(
+          revert.args.map((value, index) => [String(index), value])
+        ),
+      }
+    );
+  }
+  return findWeb3jsRevert(error);
+}
+
+function fromLibraryRevert(
+  revert: LibraryRevert,
+  data: Hex | undefined
+): DecodedRevert {
+  const decoded: DecodedRevert = {
+    name: revert.name,
+    signature: revert.signature,
+    selector: data ? slice(data, 0, 4) : toFunctionSelector(revert.signature),
+    args: revert.args,
+  };
+
+  const [first] = Object.values(revert.args);
+  if (revert.signature === "Error(string)" && typeof first === "string") {
+    decoded.reason = first;
+  } else if (revert.signature === "Panic(uint256)") {
+    decoded.panicCode = formatPanicCode(first);
+  }
+
+  return decoded;
+}
+
+/**
+ * Decode revert data against the given ABIs, then the selector registry.
+ * Returns null when the selector is unknown or the payload is malformed.
+ */
+export function decodeRevertData(
+  data: Hex,
+  abis: readonly Abi[] = []
+): DecodedRevert | null {
+  try {
+    const known = lookupErrorSelector(slice(data, 0, 4));
+    const { abiItem, args } = decodeErrorResult({
+      abi: known ? [...abis.flat(), known] : abis.flat(),
+      data,
+    });
+    if (abiItem.type !== "error") {
+      return null;
+    }
+    return toDecodedRevert(abiItem, args);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode the custom error carried by an error object, if any.
+ * Uses viem's already-decoded revert when available, otherwise looks for
+ * raw revert data and decodes it with the caller-supplied ABIs or the
+ * bundled selector registry. `Error(string)` and `Panic(uint256)` are always decoded, even without ABIs.
+ * Falls back to the revert ethers v6 or web3.js decoded when the raw data
+ * is unknown.
+ */
+export function decodeRevert(
+  error: unknown,
+  abis: readonly Abi[] = []
+): DecodedRevert | null {
+  if (error instanceof BaseError) {
+    const revertError = error.walk(
+      (err) => err instanceof ContractFunctionRevertedError && !!err.data
+    );
+    if (
+      revertError instanceof ContractFunctionRevertedError &&
+      revertError.data?.abiItem.type === "error"
+    ) {
+      return toDecodedRevert(revertError.data.abiItem, revertError.data.args);
+    }
+  }
+
+  const data = findRevertData(error);
+  const decoded = data ? decodeRevertData(data, abis) : null;
+  if (decoded) {
+    return decoded;
+  }
+
+  const revert = findLibraryRevert(error);
+  if (!revert) {
+    return null;
+  }
+  try {
+    return fromLibraryRevert(revert, data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The string to look up in the dictionary for a decoded revert:
+ * the reason string for `Error(string)`, the panic code for `Panic(uint256)`,
+ * otherwise the custom error name.
+ */
+export function getDecodedMatchKey(decoded: DecodedRevert): string {
+  return decoded.reason ?? decoded.panicCode ?? decoded.name;
+}
+
+/**
+ * Format a decoded revert for logs and AI prompts,
+ * e.g. `InsufficientBalance(available: 1, required: 2)`
+ */
+export function formatDecodedRevert(decoded: DecodedRevert): string {
+  const args = Object.entries(decoded.args)
+    .map(([name, value]) => `${name}: ${String(value)}`)
+    .join(", ");
+  return `${decoded.name}(${args})`;
+}
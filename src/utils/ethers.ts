@@ -0,0 +1,96 @@
+/**
+ * Error codes set by ethers v5 and v6 (`error.code`)
+ */
+const ETHERS_ERROR_CODES = new Set([
+  "UNKNOWN_ERROR",
+  "NOT_IMPLEMENTED",
+  "UNSUPPORTED_OPERATION",
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+  "BAD_DATA",
+  "CANCELLED",
+  "BUFFER_OVERRUN",
+  "NUMERIC_FAULT",
+  "INVALID_ARGUMENT",
+  "MISSING_ARGUMENT",
+  "UNEXPECTED_ARGUMENT",
+  "VALUE_MISMATCH",
+  "CALL_EXCEPTION",
+  "INSUFFICIENT_FUNDS",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+  "TRANSACTION_REPLACED",
+  "UNCONFIGURED_NAME",
+  "OFFCHAIN_FAULT",
+  "ACTION_REJECTED",
+  // v5 only
+  "UNPREDICTABLE_GAS_LIMIT",
+]);
+
+/**
+ * Custom error decoded by ethers v6 from the contract ABI
+ */
+export interface EthersRevert {
+  name: string;
+  signature: string;
+  args: readonly unknown[];
+}
+
+/**
+ * The parts of ethers v5/v6 errors the humanizer reads.
+ * v6 wraps the JSON-RPC error in `info.error`; v5 in `error`
+ * (sometimes nested twice).
+ */
+export interface EthersError {
+  code: string;
+  message?: string;
+  shortMessage?: string;
+  reason?: string | null;
+  revert?: EthersRevert | null;
+  data?: unknown;
+  info?: {
+    error?: unknown;
+    payload?: unknown;
+  };
+  error?: unknown;
+}
+
+export function isEthersError(error: unknown): error is EthersError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    ETHERS_ERROR_CODES.has((error as { code?: unknown }).code as string)
+  );
+}
+
+/**
+ * Message of the JSON-RPC error ethers wrapped, e.g. the node's
+ * "insufficient funds for gas * price + value: ..." behind ethers'
+ * generic INSUFFICIENT_FUNDS message.
+ */
+export function getEthersRpcMessage(error: EthersError): string | undefined {
+  let inner = error.info?.error ?? error.error;
+  for (let depth = 0; depth < 3; depth++) {
+    const next = (inner as { error?: unknown } | undefined)?.error;
+    if (!next || typeof next !== "object") {
+      break;
+    }
+    inner = next;
+  }
+  const message = (inner as { message?: unknown } | undefined)?.message;
+  return typeof message === "string" && message ? message : undefined;
+}
+
+/**
+ * The custom error ethers decoded, if it is well-formed
+ */
+export function getEthersRevert(error: EthersError): EthersRevert | undefined {
+  const { revert } = error;
+  return revert &&
+    typeof revert.name === "string" &&
+    typeof revert.signature === "string" &&
+    Array.isArray(revert.args)
+    ? revert
+    : undefined;
+}
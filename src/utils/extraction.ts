@@ -1,5 +1,15 @@
 import { BaseError, ContractFunctionRevertedError } from "viem";
-import { LOCAL_ERROR_MAP } from "../data/error-map";
+import type { ErrorIndex, ErrorLayer, ErrorLayerSource } from "../types";
+import { type EthersError, getEthersRpcMessage, isEthersError } from "./ethers";
+import { DEFAULT_ERROR_INDEX, hasIndexedKey } from "./matching";
+import { getMoveMatchKey, parseMoveAbortError } from "./move";
+import { getSolanaMatchKey, parseSolanaFailure } from "./solana";
+import { getTonMatchKey, parseTonFailure } from "./ton";
+import {
+  type Web3jsError,
+  getWeb3jsInnerErrors,
+  isWeb3jsError,
+} from "./web3js";
 
 interface ErrorLike {
   code?: number | string;
@@ -13,13 +23,113 @@ interface ErrorLike {
   };
   cause?: unknown;
   error?: ErrorLike | string;
+  info?: {
+    error?: unknown;
+  };
+  innerError?: unknown;
+}
+
+const MAX_CHAIN_DEPTH = 8;
+
+/**
+ * ethers codes that say more than the node's message. A wallet's
+ * rejection text ("MetaMask Tx Signature: User denied ...") would
+ * otherwise match as a signing failure.
+ */
+const AUTHORITATIVE_ETHERS_CODES = new Set(["ACTION_REJECTED"]);
+
+/**
+ * ethers codes that only lose to a node message carrying the actual
+ * nonces or fees
+ */
+const NONCE_ETHERS_CODES = new Set([
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+]);
+
+function isAuthoritativeEthersCode(
+  code: string,
+  rpcMessage: string | undefined
+): boolean {
+  return (
+    AUTHORITATIVE_ETHERS_CODES.has(code) ||
+    (NONCE_ETHERS_CODES.has(code) && !/\d/.test(rpcMessage ?? ""))
+  );
+}
+
+/**
+ * ethers v5/v6 errors: the revert reason for CALL_EXCEPTION, otherwise the
+ * node's message from the wrapped JSON-RPC error (more specific than
+ * ethers' own, e.g. it carries balances or nonces), then ethers' short
+ * message. Codes like ACTION_REJECTED come before both; other codes are
+ * only matched when the messages aren't.
+ */
+function extractEthersMessage(
+  error: EthersError,
+  index: ErrorIndex
+): string | undefined {
+  if (error.code === "CALL_EXCEPTION" && error.reason) {
+    return error.reason;
+  }
+  const rpcMessage = getEthersRpcMessage(error);
+  if (
+    hasIndexedKey(error.code, index) &&
+    isAuthoritativeEthersCode(error.code, rpcMessage)
+  ) {
+    return error.code;
+  }
+  return rpcMessage || error.shortMessage || undefined;
+}
+
+/**
+ * Message of a JSON-RPC error web3.js wrapped. Nodes like Hardhat put the
+ * revert reason in `data.message` behind a generic "Internal JSON-RPC error".
+ */
+function getRpcErrorMessage(error: ErrorLike): string | undefined {
+  if (error.data && typeof error.data === "object" && error.data.message) {
+    return error.data.message;
+  }
+  return error.message || undefined;
+}
+
+/**
+ * web3.js v4 errors: the revert `reason`, then the wrapped error
+ * (`innerError`, `cause`), then the error's `data.message` and own
+ * message ("Returned error: insufficient funds ..."). The web3.js code is
+ * only matched when none of them are.
+ */
+function extractWeb3jsMessage(
+  error: Web3jsError,
+  depth = 0
+): string | undefined {
+  if (typeof error.reason === "string" && error.reason) {
+    return error.reason;
+  }
+  if (depth < MAX_CHAIN_DEPTH) {
+    for (const inner of [...getWeb3jsInnerErrors(error), error.cause]) {
+      const message = isWeb3jsError(inner)
+        ? extractWeb3jsMessage(inner, depth + 1)
+        : inner && typeof inner === "object"
+          ? getRpcErrorMessage(inner as ErrorLike)
+          : undefined;
+      if (message) {
+        return message;
+      }
+    }
+  }
+  return getRpcErrorMessage(error as ErrorLike);
 }
 
 /**
  * Extract raw message from complex Web3 error objects
- * Supports: viem, ethers.js, web3.js, and generic error objects
+ * Supports: viem, ethers.js, web3.js, and generic error objects.
+ * Codes and keys are only used in place of the message when `index`
+ * (the bundled dictionary by default) has them.
  */
-export function extractRawMessage(error: unknown): string {
+export function extractRawMessage(
+  error: unknown,
+  index: ErrorIndex = DEFAULT_ERROR_INDEX
+): string {
   // Handle null/undefined
   if (error === null || error === undefined) {
     return "Unknown error";
@@ -36,11 +146,48 @@ export function extractRawMessage(error: unknown): string {
     return error.shortMessage || error.message;
   }
 
+  // Handle ethers errors (v6 errors are Error instances)
+  if (isEthersError(error)) {
+    const message = extractEthersMessage(error, index);
+    if (message) {
+      return message;
+    }
+  }
+
+  // Handle web3.js errors (Error instances, recognized by shape)
+  if (isWeb3jsError(error)) {
+    const message = extractWeb3jsMessage(error);
+    if (message) {
+      return message;
+    }
+  }
+
+  // Handle Solana transaction errors and SendTransactionError logs
+  const solanaFailure = parseSolanaFailure(error);
+  const solanaKey = solanaFailure && getSolanaMatchKey(solanaFailure, index);
+  if (solanaKey) {
+    return solanaKey;
+  }
+
+  // Handle Sui and Aptos Move aborts
+  const moveAbort = parseMoveAbortError(error);
+  const moveKey = moveAbort && getMoveMatchKey(moveAbort, index);
+  if (moveKey) {
+    return moveKey;
+  }
+
+  // Handle TON transaction results (compute and action phases)
+  const tonFailure = parseTonFailure(error);
+  const tonKey = tonFailure && getTonMatchKey(tonFailure, index);
+  if (tonKey) {
+    return tonKey;
+  }
+
   // Handle Error objects
   if (error instanceof Error) {
     // Check for error.cause (Error chaining)
     if (error.cause) {
-      const causeMessage = extractRawMessage(error.cause);
+      const causeMessage = extractRawMessage(error.cause, index);
       if (causeMessage !== "Unknown error") {
         return causeMessage;
       }
@@ -55,7 +202,7 @@ export function extractRawMessage(error: unknown): string {
     // Check for error code (EIP-1193)
     if (typeof err.code === "number" || typeof err.code === "string") {
       const codeStr = String(err.code);
-      if (LOCAL_ERROR_MAP[codeStr]) {
+      if (hasIndexedKey(codeStr, index)) {
         return codeStr;
       }
     }
@@ -85,7 +232,7 @@ export function extractRawMessage(error: unknown): string {
 
     // Handle nested error objects
     if (err.error) {
-      const nestedMessage = extractRawMessage(err.error);
+      const nestedMessage = extractRawMessage(err.error, index);
       if (nestedMessage !== "Unknown error") {
         return nestedMessage;
       }
@@ -93,7 +240,7 @@ export function extractRawMessage(error: unknown): string {
 
     // Handle error.cause
     if (err.cause) {
-      const causeMessage = extractRawMessage(err.cause);
+      const causeMessage = extractRawMessage(err.cause, index);
       if (causeMessage !== "Unknown error") {
         return causeMessage;
       }
@@ -112,3 +259,103 @@ export function extractRawMessage(error: unknown): string {
     return "Unknown error";
   }
 }
+
+// EIP-1193 provider errors (user rejected, unauthorized, disconnected, ...)
+function isWalletCode(code: number): boolean {
+  return code >= 4000 && code < 5000;
+}
+
+function getLayerSource(error: object): ErrorLayerSource {
+  if (error instanceof BaseError) {
+    return "viem";
+  }
+  if (isEthersError(error)) {
+    return "ethers";
+  }
+  if (isWeb3jsError(error)) {
+    return "web3js";
+  }
+  const { code } = error as ErrorLike;
+  if (typeof code === "number") {
+    return isWalletCode(code) ? "wallet" : "rpc";
+  }
+  return "generic";
+}
+
+function getLayerMessage(error: object): string | undefined {
+  if (error instanceof ContractFunctionRevertedError && error.reason) {
+    return error.reason;
+  }
+  const err = error as ErrorLike;
+  return [err.reason, err.shortMessage, err.message].find(
+    (value): value is string => typeof value === "string" && value !== ""
+  );
+}
+
+function toLayer(error: object): ErrorLayer | undefined {
+  const message = getLayerMessage(error);
+  if (!message) {
+    return undefined;
+  }
+  const { code } = error as ErrorLike;
+  return {
+    source: getLayerSource(error),
+    message,
+    ...((typeof code === "number" || typeof code === "string") && { code }),
+    ...(error instanceof Error && { name: error.name }),
+  };
+}
+
+function getInnerErrors(error: object): unknown[] {
+  if (error instanceof BaseError) {
+    return [error.cause];
+  }
+  const err = error as ErrorLike;
+  // String `data` is revert data, not a message
+  return [
+    err.error,
+    err.info?.error,
+    ...(isWeb3jsError(error) ? getWeb3jsInnerErrors(error) : []),
+    typeof err.data === "object" ? err.data : undefined,
+    err.cause,
+  ];
+}
+
+/**
+ * Walk an error and every wrapped error (`cause`, nested `error`, ethers
+ * `info.error`, web3.js `innerError`, RPC `data`), returning one layer per message, outermost first. Unlike
+ * `extractRawMessage`, wrapper context such as "gas estimation failed"
+ * is kept next to the root cause.
+ */
+export function extractErrorChain(error: unknown): ErrorLayer[] {
+  const layers: ErrorLayer[] = [];
+  const seen = new Set<unknown>();
+
+  const push = (layer?: ErrorLayer) => {
+    // Wrappers often repeat their cause's message
+    if (layer && layer.message !== layers.at(-1)?.message) {
+      layers.push(layer);
+    }
+  };
+
+  const visit = (value: unknown, depth: number) => {
+    if (value === null || value === undefined || depth > MAX_CHAIN_DEPTH) {
+      return;
+    }
+    if (typeof value === "string") {
+      push(value ? { source: "generic", message: value } : undefined);
+      return;
+    }
+    if (typeof value !== "object" || seen.has(value)) {
+      return;
+    }
+    seen.add(value);
+    push(toLayer(value));
+    for (const inner of getInnerErrors(value)) {
+      visit(inner, depth + 1);
+    }
+  };
+
+  visit(error, 0);
+  return layers;
+}
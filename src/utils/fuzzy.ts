@@ -0,0 +1,118 @@
+/**
+ * Filler words that differ between wallets' phrasings of the same error
+ * ("Request was rejected by the user" vs "Rejected by user")
+ */
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "the",
+  "was",
+  "is",
+  "been",
+  "has",
+  "by",
+  "to",
+  "of",
+  "for",
+  "in",
+  "on",
+  "this",
+  "your",
+]);
+
+const ALPHABETIC = /^[a-z]+$/;
+
+/**
+ * Split a normalized message into distinct, meaningful tokens.
+ *
+ * @example
+ * tokenize("request was rejected by the user"); // ["request", "rejected", "user"]
+ */
+export function tokenize(normalized: string): string[] {
+  const tokens = normalized
+    .split(/[\s:._-]+/)
+    .filter((token) => token && !STOP_WORDS.has(token));
+  return [...new Set(tokens)];
+}
+
+/**
+ * Typos tolerated between two words: none for short words and numbers
+ * (so "4001" never matches "4002"), one from 4 letters, two from 8.
+ */
+function allowedEdits(a: string, b: string): number {
+  if (!ALPHABETIC.test(a) || !ALPHABETIC.test(b)) {
+    return 0;
+  }
+  const length = Math.max(a.length, b.length);
+  return length >= 8 ? 2 : length >= 4 ? 1 : 0;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `limit`.
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isSimilarToken(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  const limit = allowedEdits(a, b);
+  return limit > 0 && editDistance(a, b, limit) <= limit;
+}
+
+/**
+ * Dice coefficient of two token sets (0-1), counting near-identical words
+ * as shared. Order-insensitive and deterministic.
+ *
+ * @example
+ * tokenSetSimilarity(["user", "rejectd", "request"], ["request", "rejected"]); // 0.8
+ */
+export function tokenSetSimilarity(
+  messageTokens: readonly string[],
+  keyTokens: readonly string[]
+): number {
+  const total = messageTokens.length + keyTokens.length;
+  if (total === 0) {
+    return 0;
+  }
+  const unused = new Set(messageTokens);
+  let shared = 0;
+  for (const keyToken of keyTokens) {
+    let found: string | undefined = unused.has(keyToken) ? keyToken : undefined;
+    if (found === undefined) {
+      for (const token of unused) {
+        if (isSimilarToken(token, keyToken)) {
+          found = token;
+          break;
+        }
+      }
+    }
+    if (found !== undefined) {
+      unused.delete(found);
+      shared++;
+    }
+  }
+  return (2 * shared) / total;
+}
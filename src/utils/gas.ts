@@ -0,0 +1,82 @@
+import type { GasRecommendation } from "../types";
+
+const INTEGER_PATTERN = /^\d+$/;
+
+// EIP-1559 lets the base fee rise by up to 12.5% per block
+const BASE_FEE_HEADROOM_PERCENT = 13n;
+
+function toBigInt(value?: string): bigint | undefined {
+  return value !== undefined && INTEGER_PATTERN.test(value)
+    ? BigInt(value)
+    : undefined;
+}
+
+/**
+ * `value` increased by `percent`, rounded up.
+ */
+function increaseBy(value: bigint, percent: bigint): string {
+  return ((value * (100n + percent) + 99n) / 100n).toString();
+}
+
+/**
+ * Derive retry settings from values captured from a gas error:
+ * - `baseFee`: max fee covering the base fee plus one block of growth
+ * - `queuedFeeCap`/`queuedTipCap` + `bumpPercent`: the replacement threshold
+ * - `bumpPercent` alone: the required bump
+ * - `minTip`: the node's minimum priority fee
+ * - `maxPriorityFeePerGas` + `maxFeePerGas`: a tip capped at the max fee
+ * - `requiredGas`: the intrinsic gas the transaction needs
+ *
+ * Undefined when the details carry none of these.
+ */
+export function getGasRecommendation(
+  details?: Record<string, string>
+): GasRecommendation | undefined {
+  if (!details) {
+    return undefined;
+  }
+
+  const recommendation: GasRecommendation = {};
+  const baseFee = toBigInt(details.baseFee);
+  const bumpPercent = toBigInt(details.bumpPercent);
+  const queuedFeeCap = toBigInt(details.queuedFeeCap);
+  const queuedTipCap = toBigInt(details.queuedTipCap);
+  const minTip = toBigInt(details.minTip);
+  const maxFeePerGas = toBigInt(details.maxFeePerGas);
+  const maxPriorityFeePerGas = toBigInt(details.maxPriorityFeePerGas);
+  const requiredGas = toBigInt(details.requiredGas);
+
+  if (baseFee !== undefined) {
+    recommendation.maxFeePerGas = increaseBy(
+      baseFee,
+      BASE_FEE_HEADROOM_PERCENT
+    );
+  }
+  if (bumpPercent !== undefined) {
+    recommendation.bumpPercent = Number(bumpPercent);
+    if (queuedFeeCap !== undefined) {
+      recommendation.maxFeePerGas = increaseBy(queuedFeeCap, bumpPercent);
+    }
+    if (queuedTipCap !== undefined) {
+      recommendation.maxPriorityFeePerGas = increaseBy(
+        queuedTipCap,
+        bumpPercent
+      );
+    }
+  }
+  if (minTip !== undefined) {
+    recommendation.maxPriorityFeePerGas = minTip.toString();
+  }
+  if (
+    maxPriorityFeePerGas !== undefined &&
+    maxFeePerGas !== undefined &&
+    maxPriorityFeePerGas > maxFeePerGas
+  ) {
+    recommendation.maxPriorityFeePerGas = maxFeePerGas.toString();
+  }
+  if (requiredGas !== undefined) {
+    recommendation.gasLimit = requiredGas.toString();
+  }
+
+  return Object.keys(recommendation).length > 0 ? recommendation : undefined;
+}
@@ -0,0 +1,36 @@
+import type { SwapContext } from "../types";
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Fill `{placeholder}` fields in a template from the swap context and
+ * values captured from the error (which take precedence).
+ * Returns undefined if any placeholder has no value, so callers can
+ * fall back to the generic message instead of rendering a gap.
+ *
+ * @example
+ * fillTemplate("Your {fromToken} balance is too low.", { fromToken: "USDC" });
+ * // "Your USDC balance is too low."
+ */
+export function fillTemplate(
+  template: string,
+  context?: SwapContext,
+  details?: Record<string, string>
+): string | undefined {
+  if (!context && !details) {
+    return undefined;
+  }
+
+  const values: Record<string, unknown> = { ...context, ...details };
+  let complete = true;
+  const filled = template.replace(PLACEHOLDER_PATTERN, (placeholder, name) => {
+    const value = values[name];
+    if (typeof value !== "string" || !value.trim()) {
+      complete = false;
+      return placeholder;
+    }
+    return value.trim();
+  });
+
+  return complete ? filled : undefined;
+}
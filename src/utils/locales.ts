@@ -0,0 +1,97 @@
+import type { LocalePack } from "../types";
+
+const packs = new Map<string, LocalePack>();
+
+function normalizeLocale(locale: string): string {
+  return locale.trim().replace(/_/g, "-").toLowerCase();
+}
+
+/**
+ * Most specific first, e.g. "zh-Hant-TW" -> ["zh-hant-tw", "zh-hant", "zh"]
+ */
+function getLocaleChain(locale: string): string[] {
+  const parts = normalizeLocale(locale).split("-");
+  return parts.map((_, index) =>
+    parts.slice(0, parts.length - index).join("-")
+  );
+}
+
+/**
+ * Register translations for a locale. Messages are keyed by dictionary key
+ * (see `LOCAL_ERROR_MAP`); keys without a translation stay in English.
+ * Registering the same locale again merges into the existing pack.
+ *
+ * @example
+ * registerLocale("tr", {
+ *   fallbackMessage: "İşlem başarısız oldu. Lütfen tekrar deneyin.",
+ *   messages: { "User rejected": "İşlemi iptal ettiniz." },
+ * });
+ */
+export function registerLocale(locale: string, pack: LocalePack): void {
+  const key = normalizeLocale(locale);
+  const existing = packs.get(key);
+  packs.set(key, {
+    fallbackMessage: pack.fallbackMessage ?? existing?.fallbackMessage,
+    messages: { ...existing?.messages, ...pack.messages },
+    templates: { ...existing?.templates, ...pack.templates },
+  });
+}
+
+function findInPacks(
+  locale: string | undefined,
+  pick: (pack: LocalePack) => string | undefined
+): string | undefined {
+  if (!locale) {
+    return undefined;
+  }
+  for (const candidate of getLocaleChain(locale)) {
+    const pack = packs.get(candidate);
+    const value = pack && pick(pack);
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Translated message for a dictionary key, falling back from
+ * region to base language. Undefined when no pack has it.
+ */
+export function translateMessage(
+  key: string,
+  locale?: string
+): string | undefined {
+  return findInPacks(locale, (pack) => pack.messages?.[key]);
+}
+
+/**
+ * Translated message template for a dictionary key, if a pack provides one.
+ */
+export function translateTemplate(
+  key: string,
+  locale?: string
+): string | undefined {
+  return findInPacks(locale, (pack) => pack.templates?.[key]);
+}
+
+/**
+ * Translated default fallback message, if a pack provides one.
+ */
+export function translateFallbackMessage(locale?: string): string | undefined {
+  return findInPacks(locale, (pack) => pack.fallbackMessage);
+}
+
+/**
+ * English name of a locale for the AI prompt (e.g. "tr" -> "Turkish").
+ * Falls back to the code itself when the runtime can't resolve it.
+ */
+export function getLanguageName(locale: string): string {
+  try {
+    return (
+      new Intl.DisplayNames(["en"], { type: "language" }).of(locale) ?? locale
+    );
+  } catch {
+    return locale;
+  }
+}
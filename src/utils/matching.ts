@@ -1,72 +1,474 @@
-import { LOCAL_ERROR_MAP } from "../data/error-map";
-import type { LocalErrorEntry } from "../types";
+import { CATEGORY_TRAITS } from "../data/categories";
+import { ERROR_PACKS, ERROR_PACK_NAMES } from "../data/error-map";
+import type {
+  ErrorDefinition,
+  ErrorIndex,
+  ErrorPack,
+  ErrorSection,
+  LocalErrorEntry,
+  LocalMatch,
+  MatchType,
+} from "../types";
+import {
+  buildAutomaton,
+  findAllPatterns,
+  findFirstPattern,
+} from "./aho-corasick";
+import { tokenSetSimilarity, tokenize } from "./fuzzy";
 import { normalize } from "./normalization";
 
-// Pre-compute entries once at module load
-const LOCAL_ERROR_ENTRIES: LocalErrorEntry[] = Object.entries(
-  LOCAL_ERROR_MAP
-).map(([key, message]) => {
+function toDefinition(entry: string | ErrorDefinition): ErrorDefinition {
+  return typeof entry === "string" ? { message: entry } : entry;
+}
+
+function toEntry(
+  key: string,
+  definition: ErrorDefinition,
+  section: ErrorSection,
+  pack: ErrorPack
+): LocalErrorEntry {
   const keyLower = normalize(key);
   const hasSeparator = /[\s:._-]/.test(keyLower);
   const isCode = /^-?\d+$/.test(keyLower);
   const isShortToken = keyLower.length < 4 && !hasSeparator && !isCode;
-  return { key, keyLower, message, isCode, isShortToken };
-});
-
-// Create lookup maps for faster matching
-const EXACT_MATCH_MAP = new Map<string, LocalErrorEntry>();
-const CODE_MAP = new Map<string, LocalErrorEntry>();
-
-// Sort by length (longest first) for substring matching
-const SORTED_SUBSTRING_ENTRIES: LocalErrorEntry[] = [];
-
-for (const entry of LOCAL_ERROR_ENTRIES) {
-  // Index exact matches
-  EXACT_MATCH_MAP.set(entry.keyLower, entry);
-
-  // Index codes separately
-  if (entry.isCode) {
-    CODE_MAP.set(entry.keyLower, entry);
-  } else {
-    // Only add non-codes to substring matching (skip short tokens)
-    if (!entry.isShortToken) {
-      SORTED_SUBSTRING_ENTRIES.push(entry);
+  const category = definition.category ?? section.category;
+  const traits = CATEGORY_TRAITS[category];
+  return {
+    key,
+    keyLower,
+    message: definition.message,
+    template: definition.template,
+    category,
+    retryable: definition.retryable ?? traits.retryable,
+    severity: definition.severity ?? traits.severity,
+    actions: definition.actions ?? traits.actions,
+    pack: pack.name,
+    isCode,
+    isShortToken,
+    isSubstring: definition.substring ?? section.substring ?? false,
+    // Drop stateful flags so the shared pattern can be reused safely
+    pattern:
+      definition.pattern &&
+      new RegExp(
+        definition.pattern.source,
+        definition.pattern.flags.replace(/[gy]/g, "")
+      ),
+    details: definition.details,
+  };
+}
+
+function toMatch(
+  entry: LocalErrorEntry,
+  matchType: MatchType,
+  confidence: number,
+  captured?: Record<string, string>
+): LocalMatch {
+  const details =
+    entry.details || captured ? { ...entry.details, ...captured } : undefined;
+  return {
+    matchedKey: entry.key,
+    matchType,
+    confidence,
+    message: entry.message,
+    template: entry.template,
+    category: entry.category,
+    retryable: entry.retryable,
+    severity: entry.severity,
+    actions: [...entry.actions],
+    pack: entry.pack,
+    ...(details && { details }),
+  };
+}
+
+/**
+ * Pre-compute lookup structures for a set of packs.
+ */
+export function buildErrorIndex(packs: readonly ErrorPack[]): ErrorIndex {
+  const exact = new Map<string, LocalErrorEntry>();
+  const codes = new Map<string, LocalErrorEntry>();
+  const substrings: LocalErrorEntry[] = [];
+  const patterns: LocalErrorEntry[] = [];
+
+  for (const pack of packs) {
+    for (const section of pack.sections) {
+      for (const [key, entry] of Object.entries(section.entries)) {
+        const indexed = toEntry(key, toDefinition(entry), section, pack);
+
+        // Pattern entries match by regex only
+        if (indexed.pattern) {
+          patterns.push(indexed);
+          continue;
+        }
+
+        // Index exact matches
+        exact.set(indexed.keyLower, indexed);
+
+        // Index codes separately
+        if (indexed.isCode) {
+          codes.set(indexed.keyLower, indexed);
+        } else if (!indexed.isShortToken) {
+          // Only add non-codes to substring matching (skip short tokens)
+          substrings.push(indexed);
+        }
+      }
     }
   }
+
+  // Sort substring entries by length (longest first) for better specificity
+  substrings.sort((a, b) => b.keyLower.length - a.keyLower.length);
+
+  return {
+    exact,
+    codes,
+    substrings,
+    patterns,
+    automaton: buildAutomaton(substrings.map((entry) => entry.keyLower)),
+    // Hex selectors and other `substring` keys aren't wording
+    phrases: substrings
+      .filter((entry) => !entry.isSubstring)
+      .map((entry) => ({ entry, tokens: tokenize(entry.keyLower) }))
+      .filter(({ tokens }) => tokens.length > 0),
+  };
 }
 
-// Sort substring entries by length (longest first) for better specificity
-SORTED_SUBSTRING_ENTRIES.sort((a, b) => b.keyLower.length - a.keyLower.length);
+/**
+ * Resolve the active packs for an instance. Names refer to bundled packs;
+ * pack objects are used as-is. Throws on unknown pack names so typos in
+ * configuration don't silently drop coverage.
+ */
+export function selectPacks(
+  packs: readonly (string | ErrorPack)[] = ERROR_PACKS,
+  disabledPacks: readonly string[] = []
+): ErrorPack[] {
+  return packs
+    .map((pack) => {
+      if (typeof pack !== "string") {
+        return pack;
+      }
+      const bundled = ERROR_PACKS.find(({ name }) => name === pack);
+      if (!bundled) {
+        throw new Error(
+          `Unknown error pack "${pack}". Available packs: ${ERROR_PACK_NAMES.join(", ")}`
+        );
+      }
+      return bundled;
+    })
+    .filter(({ name }) => !disabledPacks.includes(name));
+}
 
 /**
- * Match error message against local dictionary with optimized lookup:
+ * Apply custom entries and disabled keys on top of a set of packs.
+ * Keys are compared after normalization, so "user rejected" overrides
+ * "User rejected". Overrides stay in their original section and inherit its
+ * metadata; a reworded override drops the original template unless it
+ * brings its own. New keys go into a leading "custom" pack so they
+ * win ties against bundled entries.
+ */
+export function customizePacks(
+  packs: readonly ErrorPack[],
+  customErrors: Record<string, string | ErrorDefinition> = {},
+  disabledKeys: readonly string[] = []
+): ErrorPack[] {
+  const disabled = new Set(disabledKeys.map(normalize));
+  const custom = new Map(
+    Object.entries(customErrors).map(([key, entry]) => [
+      normalize(key),
+      { key, definition: toDefinition(entry) },
+    ])
+  );
+
+  const overridden = new Set<string>();
+
+  const customizeSection = (section: ErrorSection): ErrorSection => {
+    const entries: ErrorSection["entries"] = {};
+    for (const [key, entry] of Object.entries(section.entries)) {
+      const keyLower = normalize(key);
+      if (disabled.has(keyLower)) {
+        continue;
+      }
+      const override = custom.get(keyLower);
+      if (override) {
+        overridden.add(keyLower);
+        entries[key] = {
+          ...toDefinition(entry),
+          ...override.definition,
+          template: override.definition.template,
+        };
+      } else {
+        entries[key] = entry;
+      }
+    }
+    return { ...section, entries };
+  };
+
+  const customized = packs.map((pack) => ({
+    ...pack,
+    sections: pack.sections.map(customizeSection),
+  }));
+
+  const added = [...custom.entries()]
+    .filter(
+      ([keyLower]) => !overridden.has(keyLower) && !disabled.has(keyLower)
+    )
+    .map(([, entry]) => entry);
+  if (added.length === 0) {
+    return customized;
+  }
+
+  return [
+    {
+      name: "custom",
+      sections: [
+        {
+          name: "Custom Errors",
+          category: "unknown",
+          entries: Object.fromEntries(
+            added.map(({ key, definition }) => [key, definition])
+          ),
+        },
+      ],
+    },
+    ...customized,
+  ];
+}
+
+const WORD_CHAR = /\w/;
+
+function isOnBoundaries(
+  key: string,
+  text: string,
+  start: number,
+  end: number
+): boolean {
+  if (WORD_CHAR.test(key[0]) && start > 0 && WORD_CHAR.test(text[start - 1])) {
+    return false;
+  }
+  return !(
+    WORD_CHAR.test(key[key.length - 1]) &&
+    end < text.length &&
+    WORD_CHAR.test(text[end])
+  );
+}
+
+/**
+ * Whether an occurrence of a key sits on token boundaries: a key edge that is
+ * a word character must not continue into a word character of the message.
+ * `substring` keys match anywhere.
+ */
+function isTokenMatch(
+  entry: LocalErrorEntry,
+  text: string,
+  start: number,
+  end: number
+): boolean {
+  return entry.isSubstring || isOnBoundaries(entry.keyLower, text, start, end);
+}
+
+/**
+ * Classify and score a substring-tier hit. Confidence grows with the share
+ * of the message the key covers, from 0.5 up to 0.95 (a key covering the
+ * whole message would have been an exact match).
+ */
+function toSubstringMatch(
+  entry: LocalErrorEntry,
+  normalized: string
+): LocalMatch {
+  const key = entry.keyLower;
+  let matchType: MatchType = "substring";
+  for (
+    let start = normalized.indexOf(key);
+    start !== -1;
+    start = normalized.indexOf(key, start + 1)
+  ) {
+    if (isOnBoundaries(key, normalized, start, start + key.length)) {
+      matchType = "boundary";
+      break;
+    }
+  }
+  const coverage = key.length / normalized.length;
+  return toMatch(
+    entry,
+    matchType,
+    Math.round((0.5 + 0.45 * coverage) * 100) / 100
+  );
+}
+
+/**
+ * Run a pattern entry against the raw message. Named groups that
+ * participated in the match become the match details.
+ */
+function toPatternMatch(
+  entry: LocalErrorEntry,
+  rawMessage: string
+): LocalMatch | null {
+  const result = entry.pattern?.exec(rawMessage);
+  if (!result) {
+    return null;
+  }
+  const details = Object.fromEntries(
+    Object.entries(result.groups ?? {}).filter(
+      (group): group is [string, string] => group[1] !== undefined
+    )
+  );
+  return toMatch(entry, "pattern", 0.95, details);
+}
+
+/**
+ * Dictionary phrases worded like the message, most similar first.
+ * Confidence is half the similarity, so fuzzy matches rank below
+ * every literal match.
+ */
+function findFuzzyMatches(
+  normalized: string,
+  index: ErrorIndex,
+  threshold: number
+): LocalMatch[] {
+  const messageTokens = tokenize(normalized);
+  const matches: { similarity: number; match: LocalMatch }[] = [];
+
+  for (const { entry, tokens } of index.phrases) {
+    // Skip keys too short to reach the threshold even if every token is shared
+    const bestCase =
+      (2 * Math.min(tokens.length, messageTokens.length)) /
+      (tokens.length + messageTokens.length);
+    if (bestCase < threshold) {
+      continue;
+    }
+    const similarity = tokenSetSimilarity(messageTokens, tokens);
+    if (similarity > 0 && similarity >= threshold) {
+      matches.push({
+        similarity,
+        match: toMatch(entry, "fuzzy", Math.round(similarity * 50) / 100),
+      });
+    }
+  }
+
+  // Stable, so equal scores keep dictionary priority (longest key first)
+  return matches
+    .sort((a, b) => b.similarity - a.similarity)
+    .map(({ match }) => match);
+}
+
+// Pre-compute the bundled dictionary once at module load
+export const DEFAULT_ERROR_INDEX: ErrorIndex = buildErrorIndex(ERROR_PACKS);
+
+/**
+ * Whether an index has a key, compared after normalization. Extraction
+ * checks this before rewriting a message into a code or key, so custom,
+ * disabled and deselected entries are respected.
+ */
+export function hasIndexedKey(
+  key: string,
+  index: ErrorIndex = DEFAULT_ERROR_INDEX
+): boolean {
+  return index.exact.has(normalize(key));
+}
+
+/**
+ * Match error message against a dictionary index with optimized lookup:
  * 1. Exact code match (O(1))
  * 2. Exact phrase match (O(1))
- * 3. Substring match (O(n) but sorted by specificity)
+ * 3. Pattern match: the first regex entry matching the raw message
+ * 4. Substring match: one Aho-Corasick pass over the message; the longest
+ *    key found on token boundaries wins, as patterns are ordered longest first
+ * 5. Fuzzy match (only with a `fuzzyThreshold`): the most similar phrase
  */
 export function matchLocalErrorDetailed(
-  rawMessage: string
-): { matchedKey: string; message: string } | null {
+  rawMessage: string,
+  index: ErrorIndex = DEFAULT_ERROR_INDEX,
+  fuzzyThreshold?: number
+): LocalMatch | null {
   const normalized = normalize(rawMessage);
 
   // 1. Try exact code match first (fastest)
-  const codeMatch = CODE_MAP.get(normalized);
+  const codeMatch = index.codes.get(normalized);
   if (codeMatch) {
-    return { matchedKey: codeMatch.key, message: codeMatch.message };
+    return toMatch(codeMatch, "code", 1);
   }
 
   // 2. Try exact phrase match
-  const exactMatch = EXACT_MATCH_MAP.get(normalized);
+  const exactMatch = index.exact.get(normalized);
   if (exactMatch) {
-    return { matchedKey: exactMatch.key, message: exactMatch.message };
+    return toMatch(exactMatch, "exact", 1);
+  }
+
+  // 3. Try regex entries, which capture the message's variable parts
+  for (const entry of index.patterns) {
+    const patternMatch = toPatternMatch(entry, rawMessage);
+    if (patternMatch) {
+      return patternMatch;
+    }
+  }
+
+  // 4. Try substring match in a single pass
+  const found = findFirstPattern(
+    index.automaton,
+    normalized,
+    (patternIndex, start, end) =>
+      isTokenMatch(index.substrings[patternIndex], normalized, start, end)
+  );
+  if (found !== -1) {
+    return toSubstringMatch(index.substrings[found], normalized);
+  }
+
+  // 5. Fall back to the closest wording, if enabled
+  if (fuzzyThreshold === undefined) {
+    return null;
   }
+  return findFuzzyMatches(normalized, index, fuzzyThreshold)[0] ?? null;
+}
+
+/**
+ * Every dictionary key matching the message, ranked by confidence.
+ * The first candidate is the one `matchLocalErrorDetailed` returns.
+ */
+export function matchLocalErrorCandidates(
+  rawMessage: string,
+  index: ErrorIndex = DEFAULT_ERROR_INDEX,
+  fuzzyThreshold?: number
+): LocalMatch[] {
+  const normalized = normalize(rawMessage);
+  const candidates: LocalMatch[] = [];
 
-  // 3. Try substring match (sorted by length for specificity)
-  for (const entry of SORTED_SUBSTRING_ENTRIES) {
-    if (normalized.includes(entry.keyLower)) {
-      return { matchedKey: entry.key, message: entry.message };
+  const codeMatch = index.codes.get(normalized);
+  if (codeMatch) {
+    candidates.push(toMatch(codeMatch, "code", 1));
+  }
+
+  const exactMatch = index.exact.get(normalized);
+  if (exactMatch && exactMatch !== codeMatch) {
+    candidates.push(toMatch(exactMatch, "exact", 1));
+  }
+
+  for (const entry of index.patterns) {
+    const patternMatch = toPatternMatch(entry, rawMessage);
+    if (patternMatch) {
+      candidates.push(patternMatch);
     }
   }
 
-  return null;
+  const found = findAllPatterns(
+    index.automaton,
+    normalized,
+    (patternIndex, start, end) =>
+      isTokenMatch(index.substrings[patternIndex], normalized, start, end)
+  );
+  for (const patternIndex of found) {
+    const entry = index.substrings[patternIndex];
+    if (entry !== exactMatch) {
+      candidates.push(toSubstringMatch(entry, normalized));
+    }
+  }
+
+  if (fuzzyThreshold !== undefined) {
+    const matchedKeys = new Set(candidates.map(({ matchedKey }) => matchedKey));
+    candidates.push(
+      ...findFuzzyMatches(normalized, index, fuzzyThreshold).filter(
+        ({ matchedKey }) => !matchedKeys.has(matchedKey)
+      )
+    );
+  }
+
+  // Stable, so equal scores keep dictionary priority (longest key first)
+  return candidates.sort((a, b) => b.confidence - a.confidence);
 }
@@ -0,0 +1,193 @@
+import { MOVE_ABORT_CODES } from "../data/move-abort-codes";
+import type { ErrorIndex, MoveAbort, MoveAbortCategory } from "../types";
+import { DEFAULT_ERROR_INDEX, hasIndexedKey } from "./matching";
+
+// Sui: "MoveAbort(MoveLocation { module: 0x2::balance, function: 2, ... }, 2)"
+// or "MoveAbort(MoveLocation { module: ModuleId { address: 00..02, name: Identifier("balance") }, ... }, 2)"
+const SUI_ABORT =
+  /MoveAbort\(MoveLocation \{ module: (?:ModuleId \{ address: )?(?:0x)?([0-9a-f]+)(?:::|, name: Identifier\(")(\w+)[\s\S]*?\}, (\d+)\)/i;
+const SUI_FUNCTION_NAME = /function_name: Some\("(\w+)"\)/;
+// Aptos: "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): ..."
+const APTOS_ABORT =
+  /Move abort in (?:0x)?([0-9a-f]+)::(\w+): (?:(\w+)\()?(0x[0-9a-f]+|\d+)\)?/i;
+
+/**
+ * Aptos `std::error` categories, indexed by the high byte of the code
+ */
+const CANONICAL_CATEGORIES: Record<number, MoveAbortCategory> = {
+  1: "INVALID_ARGUMENT",
+  2: "OUT_OF_RANGE",
+  3: "INVALID_STATE",
+  4: "UNAUTHENTICATED",
+  5: "PERMISSION_DENIED",
+  6: "NOT_FOUND",
+  7: "ABORTED",
+  8: "ALREADY_EXISTS",
+  9: "RESOURCE_EXHAUSTED",
+  10: "CANCELLED",
+  11: "INTERNAL",
+  12: "NOT_IMPLEMENTED",
+  13: "UNAVAILABLE",
+};
+
+const MAX_DEPTH = 4;
+
+let registry: Map<string, Record<number, string>> | null = null;
+
+/**
+ * "0x0000...0001" and "1" both become "0x1"
+ */
+function normalizeAddress(address: string): string {
+  const hex = address.replace(/^0x/i, "").replace(/^0+/, "").toLowerCase();
+  return `0x${hex || "0"}`;
+}
+
+/**
+ * "0x1::coin" with a normalized address
+ */
+function toModuleKey(module: string): string {
+  const [address, name] = module.split("::");
+  return `${normalizeAddress(address)}::${name}`;
+}
+
+function getRegistry(): Map<string, Record<number, string>> {
+  if (!registry) {
+    registry = new Map(
+      Object.entries(MOVE_ABORT_CODES).map(([module, codes]) => [
+        module,
+        { ...codes },
+      ])
+    );
+  }
+  return registry;
+}
+
+/**
+ * Register abort codes of your own Move module so its aborts are named.
+ * Codes of modules using Aptos canonical errors are their reasons
+ * (the low 16 bits). Merges with codes already registered for the module.
+ *
+ * @example
+ * registerMoveAbortCodes("0xabc::pool", { 1: "ESLIPPAGE_EXCEEDED" });
+ */
+export function registerMoveAbortCodes(
+  module: string,
+  codes: Record<number, string>
+): void {
+  const key = toModuleKey(module);
+  const target = getRegistry();
+  target.set(key, { ...target.get(key), ...codes });
+}
+
+function lookupMoveAbortCode(module: string, code: number): string | undefined {
+  return getRegistry().get(module)?.[code];
+}
+
+/**
+ * A canonical code is `category << 16 | reason`, with a known category
+ */
+function decodeCanonical(
+  code: number
+): { category: MoveAbortCategory; reason: number } | undefined {
+  const category = CANONICAL_CATEGORIES[Math.floor(code / 0x10000)];
+  return category ? { category, reason: code % 0x10000 } : undefined;
+}
+
+/**
+ * Parse a Sui or Aptos Move abort message. Canonical codes are split
+ * into category and reason, and the abort is named from the message or
+ * the registered abort codes.
+ */
+export function parseMoveAbort(message: string): MoveAbort | undefined {
+  const sui = message.match(SUI_ABORT);
+  const aptos = sui ? null : message.match(APTOS_ABORT);
+  const match = sui ?? aptos;
+  if (!match) {
+    return undefined;
+  }
+
+  const moduleAddress = normalizeAddress(match[1]);
+  const moduleName = match[2];
+  const rawCode = sui ? match[3] : match[4];
+  const abortCode = Number(rawCode);
+  const canonical = aptos ? decodeCanonical(abortCode) : undefined;
+  const abort: MoveAbort = {
+    moduleAddress,
+    moduleName,
+    abortCode,
+    ...canonical,
+  };
+
+  const errorName =
+    aptos?.[3] ??
+    lookupMoveAbortCode(
+      `${moduleAddress}::${moduleName}`,
+      canonical?.reason ?? abortCode
+    );
+  if (errorName) {
+    abort.errorName = errorName;
+  }
+  const functionName = sui && message.match(SUI_FUNCTION_NAME)?.[1];
+  if (functionName) {
+    abort.functionName = functionName;
+  }
+  return abort;
+}
+
+/**
+ * Read a Move abort from a Sui or Aptos error, a transaction response
+ * or a plain message: the error or its message, Aptos' `vm_status`, or
+ * Sui's `effects.status.error`. Undefined for errors without one.
+ */
+export function parseMoveAbortError(
+  error: unknown,
+  depth = 0
+): MoveAbort | undefined {
+  if (typeof error === "string") {
+    return parseMoveAbort(error);
+  }
+  if (typeof error !== "object" || error === null || depth > MAX_DEPTH) {
+    return undefined;
+  }
+  const record = error as Record<string, unknown>;
+  for (const key of ["message", "vm_status", "error"]) {
+    if (typeof record[key] === "string") {
+      const abort = parseMoveAbort(record[key] as string);
+      if (abort) {
+        return abort;
+      }
+    }
+  }
+  for (const key of ["effects", "status", "error", "data", "cause"]) {
+    const nested = record[key];
+    if (typeof nested === "object" && nested !== null) {
+      const abort = parseMoveAbortError(nested, depth + 1);
+      if (abort) {
+        return abort;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The string to look up in the dictionary for a Move abort:
+ * `"<address>::<module>::<error>"`, then `"Move abort: <category>"` for
+ * canonical codes, when the index has them. Undefined otherwise,
+ * so the message is matched as is.
+ */
+export function getMoveMatchKey(
+  { moduleAddress, moduleName, errorName, category }: MoveAbort,
+  index: ErrorIndex = DEFAULT_ERROR_INDEX
+): string | undefined {
+  const qualified = errorName
+    ? `${moduleAddress}::${moduleName}::${errorName}`
+    : undefined;
+  if (qualified && hasIndexedKey(qualified, index)) {
+    return qualified;
+  }
+  const categoryKey = category ? `Move abort: ${category}` : undefined;
+  return categoryKey && hasIndexedKey(categoryKey, index)
+    ? categoryKey
+    : undefined;
+}
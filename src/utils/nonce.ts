@@ -0,0 +1,47 @@
+import type { NonceDiagnosis, NonceIssue } from "../types";
+
+const NONCE_ISSUES: readonly NonceIssue[] = [
+  "stuck-pending",
+  "gap",
+  "duplicate",
+];
+
+function isNonceIssue(value: unknown): value is NonceIssue {
+  return NONCE_ISSUES.includes(value as NonceIssue);
+}
+
+function toNonce(value?: string): number | undefined {
+  return value !== undefined && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+/**
+ * Build a nonce diagnosis from match details: the entry's `nonceIssue`
+ * plus the `expectedNonce`/`providedNonce` values captured from the node's
+ * message. Undefined for entries without a `nonceIssue`.
+ */
+export function getNonceDiagnosis(
+  details?: Record<string, string>
+): NonceDiagnosis | undefined {
+  const issue = details?.nonceIssue;
+  if (!isNonceIssue(issue)) {
+    return undefined;
+  }
+
+  const expectedNonce = toNonce(details?.expectedNonce);
+  const providedNonce = toNonce(details?.providedNonce);
+  const diagnosis: NonceDiagnosis = { issue };
+  if (expectedNonce !== undefined) {
+    diagnosis.expectedNonce = expectedNonce;
+  }
+  if (providedNonce !== undefined) {
+    diagnosis.providedNonce = providedNonce;
+  }
+  if (
+    issue === "gap" &&
+    expectedNonce !== undefined &&
+    providedNonce !== undefined
+  ) {
+    diagnosis.gapSize = providedNonce - expectedNonce;
+  }
+  return diagnosis;
+}
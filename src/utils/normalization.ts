@@ -3,7 +3,7 @@
  * - Converts to lowercase
  * - Trims whitespace
  * - Normalizes unicode
- * - Handles special characters
+ * - Turns special characters into token breaks
  */
 export function normalize(value: string): string {
   if (!value || typeof value !== "string") {
@@ -12,12 +12,14 @@ export function normalize(value: string): string {
 
   return (
     value
-      .trim()
       .toLowerCase()
       .normalize("NFD") // Decompose unicode characters
       // biome-ignore lint/suspicious/noMisleadingCharacterClass: We want to remove combining diacritical marks
       .replace(/[\u0300-\u036f]/g, "") // Remove diacritics
+      // Replace special characters except common separators with a space,
+      // so `reason="TIMEOUT"` doesn't glue into one token
+      .replace(/[^\w\s:._-]/g, " ")
       .replace(/\s+/g, " ") // Normalize whitespace
-      .replace(/[^\w\s:._-]/g, "")
-  ); // Remove special characters except common separators
+      .trim()
+  );
 }
@@ -0,0 +1,67 @@
+import {
+  type Abi,
+  type AbiParameter,
+  parseAbi,
+  toFunctionSelector,
+} from "viem";
+import { KNOWN_ERROR_SIGNATURES } from "../data/error-selectors";
+
+export type AbiError = Extract<Abi[number], { type: "error" }>;
+
+// Built lazily so importing the library doesn't hash every signature up front
+let registry: Map<string, AbiError> | null = null;
+
+function formatParameterType(param: AbiParameter): string {
+  if (param.type.startsWith("tuple") && "components" in param) {
+    const components = param.components.map(formatParameterType).join(",");
+    return `(${components})${param.type.slice("tuple".length)}`;
+  }
+  return param.type;
+}
+
+/**
+ * Canonical signature of an ABI error, e.g. "InsufficientBalance(uint256,uint256)"
+ */
+export function formatErrorSignature(abiItem: AbiError): string {
+  return `${abiItem.name}(${abiItem.inputs.map(formatParameterType).join(",")})`;
+}
+
+function addToRegistry(target: Map<string, AbiError>, abi: Abi): void {
+  for (const item of abi) {
+    if (item.type === "error") {
+      target.set(toFunctionSelector(formatErrorSignature(item)), item);
+    }
+  }
+}
+
+function getRegistry(): Map<string, AbiError> {
+  if (!registry) {
+    registry = new Map();
+    addToRegistry(registry, parseAbi(KNOWN_ERROR_SIGNATURES));
+  }
+  return registry;
+}
+
+/**
+ * Register extra custom error signatures so bare-selector reverts
+ * can be decoded without passing an ABI.
+ * Accepts human-readable signatures or a JSON ABI.
+ *
+ * @example
+ * registerErrorSignatures(["error VaultLocked(uint256 unlockTime)"]);
+ */
+export function registerErrorSignatures(
+  signaturesOrAbi: readonly string[] | Abi
+): void {
+  const abi = signaturesOrAbi.every((item) => typeof item === "string")
+    ? parseAbi(signaturesOrAbi as readonly string[])
+    : (signaturesOrAbi as Abi);
+  addToRegistry(getRegistry(), abi);
+}
+
+/**
+ * Look up a registered custom error by its 4-byte selector.
+ */
+export function lookupErrorSelector(selector: string): AbiError | undefined {
+  return getRegistry().get(selector.toLowerCase());
+}
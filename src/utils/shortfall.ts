@@ -0,0 +1,58 @@
+import { formatUnits } from "viem";
+import { NATIVE_CURRENCIES } from "../data/native-currencies";
+import type { BalanceShortfall } from "../types";
+
+const INTEGER_PATTERN = /^\d+$/;
+
+// Fractional digits kept after the leading zeros (0.003812 -> 4 of "3812")
+const SIGNIFICANT_DIGITS = 4;
+
+/**
+ * Format a base-unit amount, rounding up to a few significant fractional
+ * digits so the user is never told to add less than they need.
+ *
+ * @example
+ * formatAmount(3812345678901234n, 18); // "0.003813"
+ */
+function formatAmount(value: bigint, decimals: number): string {
+  const exact = formatUnits(value, decimals);
+  const [whole, fraction = ""] = exact.split(".");
+  const leadingZeros =
+    whole === "0" ? (fraction.match(/^0*/)?.[0].length ?? 0) : 0;
+  const keep = leadingZeros + SIGNIFICANT_DIGITS;
+  if (fraction.length <= keep) {
+    return exact;
+  }
+  const step = 10n ** BigInt(decimals - keep);
+  return formatUnits(((value + step - 1n) / step) * step, decimals);
+}
+
+/**
+ * Compute the missing balance from `have`/`want` values captured by a
+ * pattern entry. Undefined unless both are integers and `want` exceeds
+ * `have`. Unknown chains are formatted with 18 decimals and no symbol.
+ */
+export function getBalanceShortfall(
+  details?: Record<string, string>,
+  chainId?: number
+): BalanceShortfall | undefined {
+  const have = details?.have;
+  const want = details?.want;
+  if (!have || !want || !INTEGER_PATTERN.test(have)) {
+    return undefined;
+  }
+  if (!INTEGER_PATTERN.test(want) || BigInt(want) <= BigInt(have)) {
+    return undefined;
+  }
+
+  const currency =
+    chainId === undefined ? undefined : NATIVE_CURRENCIES[chainId];
+  const missing = BigInt(want) - BigInt(have);
+  return {
+    have,
+    want,
+    missing: missing.toString(),
+    formatted: formatAmount(missing, currency?.decimals ?? 18),
+    ...(currency && { symbol: currency.symbol }),
+  };
+}
@@ -0,0 +1,349 @@
+import { ANCHOR_ERRORS } from "../data/anchor-errors";
+import { SOLANA_PROGRAMS } from "../data/solana-programs";
+import type { AnchorIdl, ErrorIndex, SolanaFailure } from "../types";
+import { DEFAULT_ERROR_INDEX, hasIndexedKey } from "./matching";
+
+// "Program JUP6...TaV4 failed: custom program error: 0x1771"
+const FAILED_LOG = /^Program (\w+) failed: (.+)$/;
+const INVOKE_LOG = /^Program (\w+) invoke \[\d+\]$/;
+// "Program log: Error: ..." or Anchor's "... Error Message: Slippage exceeded."
+const ERROR_MESSAGE_LOG =
+  /^Program log: (?:.*\bError Message: |Error: )(.+?)\.?$/;
+const ANCHOR_ERROR_NUMBER = /\bError Number: (\d+)\b/;
+const ANCHOR_ERROR_CODE = /\bError Code: (\w+)\./;
+const CUSTOM_ERROR = /custom program error: (0x[0-9a-f]+)/i;
+// "Error processing Instruction 2: custom program error: 0x1771"
+const INSTRUCTION_FAILURE = /Error processing Instruction (\d+): ([^\n]+)/;
+
+/**
+ * Variants of Solana's `TransactionError`
+ */
+const TRANSACTION_ERROR_VARIANTS = new Set([
+  "AccountInUse",
+  "AccountLoadedTwice",
+  "AccountNotFound",
+  "ProgramAccountNotFound",
+  "InsufficientFundsForFee",
+  "InvalidAccountForFee",
+  "AlreadyProcessed",
+  "BlockhashNotFound",
+  "InstructionError",
+  "CallChainTooDeep",
+  "MissingSignatureForFee",
+  "InvalidAccountIndex",
+  "SignatureFailure",
+  "InvalidProgramForExecution",
+  "SanitizeFailure",
+  "ClusterMaintenance",
+  "AccountBorrowOutstanding",
+  "WouldExceedMaxBlockCostLimit",
+  "UnsupportedVersion",
+  "InvalidWritableAccount",
+  "WouldExceedMaxAccountCostLimit",
+  "WouldExceedAccountDataBlockLimit",
+  "TooManyAccountLocks",
+  "AddressLookupTableNotFound",
+  "InvalidAddressLookupTableOwner",
+  "InvalidAddressLookupTableData",
+  "InvalidAddressLookupTableIndex",
+  "InvalidRentPayingAccount",
+  "WouldExceedMaxVoteCostLimit",
+  "WouldExceedAccountDataTotalLimit",
+  "DuplicateInstruction",
+  "InsufficientFundsForRent",
+  "MaxLoadedAccountsDataSizeExceeded",
+  "InvalidLoadedAccountsDataSizeLimit",
+  "ResanitizationNeeded",
+  "ProgramExecutionTemporarilyRestricted",
+  "UnbalancedTransaction",
+  "ProgramCacheHitMaxLimit",
+  "CommitCancelled",
+]);
+
+const MAX_DEPTH = 4;
+
+type SolanaErrorLike = Record<string, unknown>;
+
+function isObject(value: unknown): value is SolanaErrorLike {
+  return typeof value === "object" && value !== null;
+}
+
+function parseCustomCode(text: string): number | undefined {
+  const hex = text.match(CUSTOM_ERROR)?.[1];
+  return hex ? Number.parseInt(hex, 16) : undefined;
+}
+
+/**
+ * A `TransactionError` variant: `"BlockhashNotFound"`, or a single-key
+ * object such as `{ InstructionError: [...] }` or
+ * `{ InsufficientFundsForRent: { account_index: 1 } }`
+ */
+function isTransactionError(value: unknown): boolean {
+  if (typeof value === "string") {
+    return TRANSACTION_ERROR_VARIANTS.has(value);
+  }
+  if (!isObject(value) || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && TRANSACTION_ERROR_VARIANTS.has(keys[0]);
+}
+
+/**
+ * The `TransactionError` of a failed transaction: the error itself,
+ * or the `err` of a confirmation/simulation result.
+ */
+function findTransactionError(error: SolanaErrorLike, depth = 0): unknown {
+  if (Array.isArray(error.InstructionError)) {
+    return error;
+  }
+  if (depth >= MAX_DEPTH) {
+    return undefined;
+  }
+  if (isTransactionError(error.err)) {
+    return error.err;
+  }
+  for (const key of ["value", "cause"]) {
+    const nested = error[key];
+    if (isObject(nested)) {
+      const found = findTransactionError(nested, depth + 1);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * `{ Custom: 6001 }`, `"InvalidAccountData"` or `{ BorshIoError: "..." }`
+ */
+function parseVariant(variant: unknown): SolanaFailure {
+  if (typeof variant === "string") {
+    return { error: variant };
+  }
+  if (!isObject(variant)) {
+    return {};
+  }
+  if (typeof variant.Custom === "number") {
+    return { error: "Custom", customCode: variant.Custom };
+  }
+  const [name] = Object.keys(variant);
+  return name ? { error: name } : {};
+}
+
+function parseTransactionError(transactionError: unknown): SolanaFailure {
+  if (isObject(transactionError) && transactionError.InstructionError) {
+    const [index, inner] = transactionError.InstructionError as unknown[];
+    return {
+      ...(typeof index === "number" && { instructionIndex: index }),
+      ...parseVariant(inner),
+    };
+  }
+  return parseVariant(transactionError);
+}
+
+function isLogs(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((line) => typeof line === "string")
+  );
+}
+
+/**
+ * Program logs of `SendTransactionError` (`logs`, `transactionLogs`)
+ * or a simulation result (`value.logs`)
+ */
+function findLogs(error: SolanaErrorLike, depth = 0): string[] | undefined {
+  for (const key of ["logs", "transactionLogs"]) {
+    if (isLogs(error[key])) {
+      return error[key] as string[];
+    }
+  }
+  if (depth >= MAX_DEPTH) {
+    return undefined;
+  }
+  for (const key of ["value", "transactionError", "cause"]) {
+    const nested = error[key];
+    if (isObject(nested)) {
+      const found = findLogs(nested, depth + 1);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The failing program and its last error message before it failed
+ */
+function parseLogs(logs: readonly string[]): SolanaFailure {
+  let failedAt = logs.length - 1;
+  while (failedAt >= 0 && !FAILED_LOG.test(logs[failedAt])) {
+    failedAt--;
+  }
+  if (failedAt === -1) {
+    return {};
+  }
+  const [, programId, failure] = logs[failedAt].match(FAILED_LOG) ?? [];
+  const parsed: SolanaFailure = { programId };
+  const customCode = parseCustomCode(failure);
+  if (customCode !== undefined) {
+    parsed.customCode = customCode;
+  }
+
+  for (let i = failedAt - 1; i >= 0; i--) {
+    const line = logs[i];
+    if (line.match(INVOKE_LOG)?.[1] === programId) {
+      break;
+    }
+    const message = line.match(ERROR_MESSAGE_LOG)?.[1];
+    if (message && parsed.logMessage === undefined) {
+      parsed.logMessage = message;
+      const anchorCode = line.match(ANCHOR_ERROR_NUMBER)?.[1];
+      if (anchorCode && parsed.customCode === undefined) {
+        parsed.customCode = Number(anchorCode);
+      }
+      const anchorName = line.match(ANCHOR_ERROR_CODE)?.[1];
+      if (anchorName) {
+        parsed.programError = anchorName;
+      }
+    }
+  }
+  return parsed;
+}
+
+/**
+ * "Transaction simulation failed: Error processing Instruction 2: ..."
+ */
+function parseMessage(message: unknown): SolanaFailure {
+  if (typeof message !== "string") {
+    return {};
+  }
+  const match = message.match(INSTRUCTION_FAILURE);
+  if (!match) {
+    return {};
+  }
+  const customCode = parseCustomCode(match[2]);
+  return {
+    instructionIndex: Number(match[1]),
+    ...(customCode !== undefined && { error: "Custom", customCode }),
+  };
+}
+
+/**
+ * Read a Solana failure from a `TransactionError`, a confirmation or
+ * simulation result, or a `SendTransactionError` with program logs.
+ * The `TransactionError` wins over the message and logs where they
+ * overlap. Custom codes are named from the well-known programs, the
+ * given Anchor IDLs (keyed by program ID), then Anchor's framework codes.
+ * Undefined for errors with none of these.
+ */
+export function parseSolanaFailure(
+  error: unknown,
+  anchorIdls: Record<string, AnchorIdl> = {}
+): SolanaFailure | undefined {
+  if (!isObject(error)) {
+    return undefined;
+  }
+  const transactionError = findTransactionError(error);
+  const logs = findLogs(error);
+  const fromMessage = parseMessage(error.message);
+  if (
+    transactionError === undefined &&
+    !logs &&
+    Object.keys(fromMessage).length === 0
+  ) {
+    return undefined;
+  }
+
+  const failure: SolanaFailure = {
+    ...fromMessage,
+    ...(logs && parseLogs(logs)),
+    ...(transactionError !== undefined &&
+      parseTransactionError(transactionError)),
+  };
+  const { programId, customCode } = failure;
+  const program = programId ? SOLANA_PROGRAMS[programId] : undefined;
+  if (program) {
+    failure.program = program.name;
+  }
+  if (customCode === undefined) {
+    return failure;
+  }
+
+  const idlError = programId
+    ? anchorIdls[programId]?.errors?.find(({ code }) => code === customCode)
+    : undefined;
+  if (idlError) {
+    failure.programError = idlError.name;
+    if (idlError.msg) {
+      failure.programMessage = idlError.msg;
+    }
+  } else if (program?.errors[customCode]) {
+    failure.programError = program.errors[customCode];
+  } else if (!program && ANCHOR_ERRORS[customCode]) {
+    failure.programError = ANCHOR_ERRORS[customCode];
+  }
+  return failure;
+}
+
+/**
+ * "<program>: <error>" for well-known programs, "Anchor: <error>" for
+ * Anchor framework errors
+ */
+function getQualifiedKey({
+  program,
+  programError,
+  customCode,
+}: SolanaFailure): string | undefined {
+  if (!programError) {
+    return undefined;
+  }
+  if (program) {
+    return `${program}: ${programError}`;
+  }
+  return customCode !== undefined && ANCHOR_ERRORS[customCode] === programError
+    ? `Anchor: ${programError}`
+    : undefined;
+}
+
+/**
+ * The string to look up in the index for a Solana failure:
+ * the qualified key of well-known programs and Anchor framework errors,
+ * the error name when the index has it, the IDL or logged message,
+ * then the custom error code or the error variant when the index has
+ * them. Undefined otherwise, so the error's own message is matched.
+ */
+export function getSolanaMatchKey(
+  failure: SolanaFailure,
+  index: ErrorIndex = DEFAULT_ERROR_INDEX
+): string | undefined {
+  const qualified = getQualifiedKey(failure);
+  if (qualified && hasIndexedKey(qualified, index)) {
+    return qualified;
+  }
+  if (failure.programError && hasIndexedKey(failure.programError, index)) {
+    return failure.programError;
+  }
+  if (failure.programMessage) {
+    return failure.programMessage;
+  }
+  if (failure.logMessage) {
+    return failure.logMessage;
+  }
+  if (failure.customCode !== undefined) {
+    const hex = `0x${failure.customCode.toString(16)}`;
+    if (hasIndexedKey(hex, index)) {
+      return hex;
+    }
+    return hasIndexedKey("custom program error", index)
+      ? `custom program error: ${hex}`
+      : undefined;
+  }
+  return failure.error && hasIndexedKey(failure.error, index)
+    ? failure.error
+    : undefined;
+}
@@ -0,0 +1,171 @@
+import {
+  TON_ACTION_RESULT_CODES,
+  TON_EXIT_CODES,
+} from "../data/ton-exit-codes";
+import type { ErrorIndex, TonComputeSkipReason, TonFailure } from "../types";
+import { DEFAULT_ERROR_INDEX, hasIndexedKey } from "./matching";
+
+/**
+ * Names of skipped compute phases, matched like exit code names
+ */
+const SKIP_REASON_NAMES: Record<TonComputeSkipReason, string> = {
+  "no-state": "ContractNotDeployed",
+  "bad-state": "BadContractState",
+  "no-gas": "NoGas",
+};
+
+const MAX_DEPTH = 4;
+
+type TonRecord = Record<string, unknown>;
+
+function isObject(value: unknown): value is TonRecord {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * The first of several spellings of a field: @ton/core uses camelCase,
+ * toncenter and tonapi snake_case
+ */
+function pick(record: TonRecord, keys: readonly string[]): unknown {
+  for (const key of keys) {
+    if (record[key] !== undefined) {
+      return record[key];
+    }
+  }
+  return undefined;
+}
+
+function getComputePhase(description: TonRecord): TonRecord | undefined {
+  const phase = pick(description, [
+    "computePhase",
+    "compute_ph",
+    "compute_phase",
+  ]);
+  return isObject(phase) ? phase : undefined;
+}
+
+function getActionPhase(description: TonRecord): TonRecord | undefined {
+  const phase = pick(description, ["actionPhase", "action", "action_phase"]);
+  return isObject(phase) ? phase : undefined;
+}
+
+/**
+ * The transaction description: the object itself, or its `description`,
+ * `transaction` or `cause` (searched recursively)
+ */
+function findDescription(error: TonRecord, depth = 0): TonRecord | undefined {
+  if (getComputePhase(error)) {
+    return error;
+  }
+  if (depth >= MAX_DEPTH) {
+    return undefined;
+  }
+  for (const key of ["description", "transaction", "cause"]) {
+    const nested = error[key];
+    if (isObject(nested)) {
+      const found = findDescription(nested, depth + 1);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * "no-gas" from @ton/core, "cskip_no_gas" from toncenter and tonapi
+ */
+function toSkipReason(reason: unknown): TonComputeSkipReason | undefined {
+  if (typeof reason !== "string") {
+    return undefined;
+  }
+  const normalized = reason.replace(/^cskip_/, "").replace(/_/g, "-");
+  return normalized in SKIP_REASON_NAMES
+    ? (normalized as TonComputeSkipReason)
+    : undefined;
+}
+
+function parseComputePhase(phase: TonRecord): TonFailure | undefined {
+  if (phase.type === "skipped" || phase.skipped === true) {
+    const skipReason = toSkipReason(
+      pick(phase, ["reason", "skip_reason", "skipReason"])
+    );
+    return {
+      phase: "compute",
+      ...(skipReason && {
+        skipReason,
+        errorName: SKIP_REASON_NAMES[skipReason],
+      }),
+    };
+  }
+  const exitCode = pick(phase, ["exitCode", "exit_code"]);
+  if (typeof exitCode !== "number") {
+    return undefined;
+  }
+  if (phase.success === true || exitCode === 0 || exitCode === 1) {
+    return undefined;
+  }
+  const errorName = TON_EXIT_CODES[exitCode];
+  return { phase: "compute", exitCode, ...(errorName && { errorName }) };
+}
+
+function parseActionPhase(phase: TonRecord): TonFailure | undefined {
+  const resultCode = pick(phase, ["resultCode", "result_code"]);
+  if (phase.success !== false || typeof resultCode !== "number") {
+    return undefined;
+  }
+  const errorName =
+    TON_ACTION_RESULT_CODES[resultCode] ??
+    (pick(phase, ["noFunds", "no_funds"]) === true
+      ? TON_ACTION_RESULT_CODES[37]
+      : undefined);
+  return {
+    phase: "action",
+    exitCode: resultCode,
+    ...(errorName && { errorName }),
+  };
+}
+
+/**
+ * Read the failing phase of a TON transaction from its description
+ * (@ton/core `Transaction.description`, or a toncenter or tonapi
+ * transaction). The compute phase is checked first: a failed or skipped
+ * compute phase means the action phase never ran. Undefined for
+ * successful transactions and other errors.
+ */
+export function parseTonFailure(error: unknown): TonFailure | undefined {
+  if (!isObject(error)) {
+    return undefined;
+  }
+  const description = findDescription(error);
+  if (!description) {
+    return undefined;
+  }
+  const computePhase = getComputePhase(description);
+  const actionPhase = getActionPhase(description);
+  return (
+    (computePhase && parseComputePhase(computePhase)) ??
+    (actionPhase && parseActionPhase(actionPhase))
+  );
+}
+
+/**
+ * The string to look up in the dictionary for a TON failure:
+ * "TON: <name>" for well-known codes the index has, otherwise
+ * "TON exit code <code>" or "TON action result code <code>" so
+ * contract-specific codes can be added as custom entries.
+ */
+export function getTonMatchKey(
+  { phase, exitCode, errorName }: TonFailure,
+  index: ErrorIndex = DEFAULT_ERROR_INDEX
+): string | undefined {
+  if (errorName && hasIndexedKey(`TON: ${errorName}`, index)) {
+    return `TON: ${errorName}`;
+  }
+  if (exitCode === undefined) {
+    return undefined;
+  }
+  return phase === "compute"
+    ? `TON exit code ${exitCode}`
+    : `TON action result code ${exitCode}`;
+}
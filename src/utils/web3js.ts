@@ -0,0 +1,186 @@
+/**
+ * web3.js v4 error codes (from `web3-errors`) that the dictionary covers,
+ * mapped to the constant names it is keyed by
+ */
+const WEB3JS_ERROR_CODES: Record<number, string> = {
+  100: "ERR_RESPONSE",
+  101: "ERR_INVALID_RESPONSE",
+  203: "ERR_OPERATION_TIMEOUT",
+  204: "ERR_OPERATION_ABORT",
+  205: "ERR_ABI_ENCODING",
+  310: "ERR_CONTRACT_EXECUTION_REVERTED",
+  400: "ERR_TX",
+  401: "ERR_TX_REVERT_INSTRUCTION",
+  402: "ERR_TX_REVERT_TRANSACTION",
+  405: "ERR_TX_REVERT_WITHOUT_REASON",
+  406: "ERR_TX_OUT_OF_GAS",
+  412: "ERR_TX_CHAIN_ID_MISMATCH",
+  415: "ERR_TX_MISSING_GAS",
+  422: "ERR_TX_UNABLE_TO_POPULATE_NONCE",
+  426: "ERR_TX_POLLING_TIMEOUT",
+  429: "ERR_TX_LOCAL_WALLET_NOT_AVAILABLE",
+  430: "ERR_TX_NOT_FOUND",
+  431: "ERR_TX_SEND_TIMEOUT",
+  432: "ERR_TX_BLOCK_TIMEOUT",
+  433: "ERR_TX_SIGNING",
+  435: "ERR_TX_CHAIN_MISMATCH",
+  438: "ERR_TX_REVERT_TRANSACTION_CUSTOM_ERROR",
+  500: "ERR_CONN",
+  502: "ERR_CONN_TIMEOUT",
+  503: "ERR_CONN_NOT_OPEN",
+  504: "ERR_CONN_CLOSE",
+  505: "ERR_CONN_MAX_ATTEMPTS",
+  600: "ERR_PROVIDER",
+  601: "ERR_INVALID_PROVIDER",
+  801: "ERR_SIGNATURE_FAILED",
+  1102: "ERR_CORE_CHAIN_MISMATCH",
+};
+
+/**
+ * Class names of web3.js v4 errors, so they are recognized without
+ * importing web3.js
+ */
+const WEB3JS_ERROR_NAMES = new Set([
+  "ResponseError",
+  "InvalidResponseError",
+  "ContractExecutionError",
+  "Eip838ExecutionError",
+  "TransactionError",
+  "TransactionRevertInstructionError",
+  "TransactionRevertWithCustomError",
+  "TransactionRevertedWithoutReasonError",
+  "TransactionOutOfGasError",
+  "TransactionPollingTimeoutError",
+  "TransactionSendTimeoutError",
+  "TransactionBlockTimeoutError",
+  "TransactionSigningError",
+  "ConnectionError",
+  "ConnectionTimeoutError",
+  "ConnectionNotOpenError",
+  "ConnectionCloseError",
+  "ProviderError",
+  "OperationTimeoutError",
+  "OperationAbortError",
+]);
+
+const MAX_DEPTH = 8;
+
+/**
+ * The parts of web3.js v4 errors the humanizer reads. The useful part is
+ * usually nested: `ContractExecutionError.innerError` holds the
+ * `Eip838ExecutionError`, whose `cause` and `data` hold the node's error.
+ */
+export interface Web3jsError {
+  name: string;
+  code?: number | string;
+  message?: string;
+  reason?: string;
+  innerError?: unknown;
+  cause?: unknown;
+  data?: unknown;
+  // Eip838ExecutionError, decoded with the contract ABI
+  errorName?: string;
+  errorSignature?: string;
+  errorArgs?: Record<string, unknown>;
+  // TransactionRevertWithCustomError
+  customErrorName?: string;
+  customErrorDecodedSignature?: string;
+  customErrorArguments?: Record<string, unknown>;
+}
+
+/**
+ * A custom error web3.js decoded from the contract ABI
+ */
+export interface Web3jsRevert {
+  name: string;
+  signature: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Match web3.js errors by shape: a known class name, or a web3.js error
+ * code next to `innerError`.
+ */
+export function isWeb3jsError(error: unknown): error is Web3jsError {
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  if (typeof name === "string" && WEB3JS_ERROR_NAMES.has(name)) {
+    return true;
+  }
+  return (
+    typeof code === "number" &&
+    WEB3JS_ERROR_CODES[code] !== undefined &&
+    "innerError" in error
+  );
+}
+
+/**
+ * The constant name of a web3.js error's code, e.g. "ERR_TX_SIGNING"
+ */
+export function getWeb3jsCodeName(error: Web3jsError): string | undefined {
+  return typeof error.code === "number"
+    ? WEB3JS_ERROR_CODES[error.code]
+    : undefined;
+}
+
+/**
+ * `innerError` is an array when web3.js aggregated several errors
+ */
+export function getWeb3jsInnerErrors(error: Web3jsError): unknown[] {
+  return Array.isArray(error.innerError)
+    ? error.innerError
+    : [error.innerError];
+}
+
+/**
+ * web3.js keys decoded arguments both by position and by name, plus a
+ * `__length__` count. Keep the names when the ABI has them.
+ */
+function toRevertArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const entries = Object.entries(args).filter(([key]) => key !== "__length__");
+  const named = entries.filter(([key]) => !/^\d+$/.test(key));
+  return Object.fromEntries(named.length > 0 ? named : entries);
+}
+
+function toRevert(error: Web3jsError): Web3jsRevert | undefined {
+  if (error.errorName && error.errorSignature) {
+    return {
+      name: error.errorName,
+      signature: error.errorSignature,
+      args: toRevertArgs(error.errorArgs ?? {}),
+    };
+  }
+  if (error.customErrorName && error.customErrorDecodedSignature) {
+    return {
+      name: error.customErrorName,
+      signature: error.customErrorDecodedSignature,
+      args: toRevertArgs(error.customErrorArguments ?? {}),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * The custom error web3.js decoded, searching `innerError` and `cause`
+ */
+export function findWeb3jsRevert(
+  error: unknown,
+  depth = 0
+): Web3jsRevert | undefined {
+  if (!isWeb3jsError(error) || depth > MAX_DEPTH) {
+    return undefined;
+  }
+  const revert = toRevert(error);
+  if (revert) {
+    return revert;
+  }
+  for (const inner of [...getWeb3jsInnerErrors(error), error.cause]) {
+    const found = findWeb3jsRevert(inner, depth + 1);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}